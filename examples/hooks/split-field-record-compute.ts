@@ -28,7 +28,7 @@ export default function SplitFieldRecordCompute(
   parts: number
 ): Array<string> {
   const fieldParts = fieldToSplit.split(separator)
-  let partsArray = Array(parts).fill('')
+  const partsArray = Array(parts).fill('')
 
   fieldParts.forEach((part, index) => {
     if (index < partsArray.length) {
@@ -36,5 +36,5 @@ export default function SplitFieldRecordCompute(
     }
   })
 
-  return fieldParts
+  return partsArray
 }
@@ -4,7 +4,7 @@ import {
   TextField,
   Workbook,
 } from '@flatfile/configure'
-import {SmartDateField } from '../fields/SmartDateField'
+import {SmartDateField, SmartDateLocaleRecordCompute } from '../fields/SmartDateField'
 
 
 
@@ -20,10 +20,14 @@ const DateSheet = new Sheet('DateSheet', {
   base_date: SmartDateField({}),
   en_date: SmartDateField({locale:'en'}),
   Fr_date: SmartDateField({locale:'fr'}),
+  // ja doesn't parse ISO or slashed dates, fall back to en for those
+  Ja_date: SmartDateField({locale:['ja', 'en']}),
   Nl_date: SmartDateField({locale:'nl'}),
   Ru_date: SmartDateField({locale:'ru'}),
   De_date: SmartDateField({locale:'de'}),
   descriptions: TextField()
+}, {
+  recordCompute: SmartDateLocaleRecordCompute({Ja_date: ['ja', 'en']})
 })
 
 /**
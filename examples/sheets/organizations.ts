@@ -10,6 +10,14 @@ import customUrlField from '../fields/url'
 // Examples of custom defined data hooks
 import joinFieldsRecordCompute from '../hooks/join-fields-record-compute'
 import splitFieldRecordCompute from '../hooks/split-field-record-compute'
+import { NameRecordCompute } from '../../src/hooks/name-record-compute'
+
+// splits the name of the primary contact into first and last names
+const splitPrimaryContact = NameRecordCompute({
+  fullNameField: 'primaryContact',
+  firstNameField: 'primaryContactFirstName',
+  lastNameField: 'primaryContactLastName',
+})
 
 export default new Sheet(
   'Organizations',
@@ -54,6 +62,16 @@ export default new Sheet(
     linkedIn: customUrlField({
       label: 'LinkedIn profile',
     }),
+    primaryContact: TextField({
+      label: 'Primary contact',
+      description: 'Full name of the main contact at the organization',
+    }),
+    primaryContactFirstName: TextField({
+      label: 'Set by recordCompute',
+    }),
+    primaryContactLastName: TextField({
+      label: 'Set by recordCompute',
+    }),
   },
   {
     allowCustomFields: true,
@@ -68,6 +86,9 @@ export default new Sheet(
         '-'
       )
 
+      // split the primary contact's name into its parts
+      splitPrimaryContact(record)
+
       // set the field values and return record
       record.set('identiferRoot', identiferRoot)
       record.set('identiferZone', identiferZone)
@@ -12,7 +12,14 @@ import { FlatfileRecord, FlatfileRecords } from '@flatfile/hooks'
 import customUrlField from '../fields/url'
 
 // Custom data hooks
-import splitFieldRecordCompute from '../hooks/split-field-record-compute'
+import { NameRecordCompute } from '../../src/hooks/name-record-compute'
+
+// splits 'Dr. Jane Q. Smith Jr.' or 'Smith, Jane' into first and last names
+const splitFullName = NameRecordCompute({
+  fullNameField: 'fullName',
+  firstNameField: 'firstName',
+  lastNameField: 'lastName',
+})
 
 export default new Sheet(
   'People',
@@ -57,15 +64,8 @@ export default new Sheet(
   },
   {
     recordCompute: (record: FlatfileRecord<any>) => {
-      // reuses a function to split a field into multiple
-      const [firstName, lastName] = splitFieldRecordCompute(
-        record.get('fullName') as string,
-        ' ',
-        2
-      )
-
-      record.set('firstName', firstName)
-      record.set('lastName', lastName)
+      // reuses a recordCompute to split a name into its parts
+      splitFullName(record)
       return record
     },
     batchRecordsCompute: async (payload: FlatfileRecords<any>) => {
@@ -1,3 +1,7 @@
+// dates must not depend on the system timezone, run the tests in one that
+// isn't GMT and has daylight saving time
+process.env.TZ = 'America/New_York'
+
 module.exports = {
     roots: ['<rootDir>/src', '<rootDir>/examples'],
     testEnvironment: 'node',
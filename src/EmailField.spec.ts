@@ -0,0 +1,120 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import {
+  EmailField,
+  isValidEmailAddress,
+  normalizeEmailAddress,
+} from './EmailField'
+
+const EmailSheet = new Sheet('EmailSheet', {
+  email: EmailField({ flagRoleAccounts: true, flagDisposableDomains: true }),
+  strictEmail: EmailField({ allowDisplayName: false }),
+})
+
+const EmailBook = new Workbook({
+  name: 'EmailBook',
+  namespace: 'test',
+  sheets: { EmailSheet },
+})
+
+describe('isValidEmailAddress ->', () => {
+  test.each([
+    'jane@example.com',
+    'jane.q.smith+hr@mail.example.co.uk',
+    "o'brien@example.ie",
+  ])('%s is valid', (address) => {
+    expect(isValidEmailAddress(address)).toBe(true)
+  })
+
+  test.each([
+    '@',
+    'a@b',
+    'jane@',
+    '@example.com',
+    'jane..smith@example.com',
+    'jane@example..com',
+    'jane@-example.com',
+    'jane smith@example.com',
+    'jane@example.c0m',
+  ])('%s is invalid', (address) => {
+    expect(isValidEmailAddress(address)).toBe(false)
+  })
+})
+
+describe('normalizeEmailAddress ->', () => {
+  test('trims and lowercases the domain', () => {
+    expect(normalizeEmailAddress('  Jane@Example.COM ')).toBe(
+      'Jane@example.com'
+    )
+  })
+
+  test('display name forms', () => {
+    expect(normalizeEmailAddress('Jane <jane@x.com>')).toBe('jane@x.com')
+    expect(normalizeEmailAddress('"Smith, Jane" <jane@x.com>')).toBe(
+      'jane@x.com'
+    )
+    expect(normalizeEmailAddress('Jane <jane@x.com>', false)).toBeUndefined()
+  })
+})
+
+describe('EmailField ->', () => {
+  const testSheet = new SheetTester(EmailBook, 'EmailSheet')
+
+  test('addresses are normalized', async () => {
+    const res = await testSheet.testRecord({
+      email: 'Jane Smith <Jane@X.com>',
+      strictEmail: ' jane@X.COM',
+    })
+    expect(res).toMatchObject({
+      email: 'Jane@x.com',
+      strictEmail: 'jane@x.com',
+    })
+  })
+
+  test('invalid addresses are errors', async () => {
+    const resMessages = await testSheet.testMessage({
+      email: 'a@b',
+      strictEmail: 'Jane <jane@x.com>',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'email',
+        "'a@b' is not a valid email address",
+        'error'
+      )
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'strictEmail',
+        "'Jane <jane@x.com>' is not a valid email address",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('role accounts and disposable domains are flagged', async () => {
+    const [roleMessages, disposableMessages] = await testSheet.testMessages([
+      { email: 'info@example.com', strictEmail: '' },
+      { email: 'jane@mailinator.com', strictEmail: '' },
+    ])
+    expect(
+      matchSingleMessage(
+        roleMessages,
+        'email',
+        "'info@example.com' looks like a role account rather than a person's address",
+        'warn'
+      )
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(
+        disposableMessages,
+        'email',
+        "'mailinator.com' is a disposable email domain",
+        'warn'
+      )
+    ).toBeTruthy()
+  })
+})
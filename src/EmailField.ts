@@ -0,0 +1,170 @@
+import _ from 'lodash'
+import {
+  stdlib,
+  Field,
+  Message,
+  TextField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+
+import { ListDisposableEmailDomainsFragment } from './fragments/disposable-email-domains'
+const { StringChainCast } = stdlib.cast
+
+// RFC 5322 dot-atom, quoted local parts aren't accepted
+const LocalPart =
+  /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/
+const DomainLabel = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/
+const TopLevelDomain = /^([a-z]{2,63}|xn--[a-z0-9-]{1,59})$/
+// "Jane Smith" <jane@example.com>
+const DisplayNameForm = /^(?:"[^"]*"|[^<>"]*)\s*<([^<>]*)>$/
+
+export const RoleAccounts = [
+  'abuse',
+  'admin',
+  'billing',
+  'careers',
+  'contact',
+  'help',
+  'hostmaster',
+  'hr',
+  'info',
+  'jobs',
+  'marketing',
+  'no-reply',
+  'noreply',
+  'office',
+  'postmaster',
+  'sales',
+  'security',
+  'support',
+  'team',
+  'webmaster',
+]
+
+/**
+ * Checks an address against the addr-spec grammar of RFC 5322, limited to
+ * dot-atom local parts and domain names.
+ *
+ * @param {string} address - the address to check, without a display name
+ * @return {boolean} true when address is valid
+ */
+export const isValidEmailAddress = (address: string): boolean => {
+  const at = address.lastIndexOf('@')
+  if (at < 1 || address.length > 254) {
+    return false
+  }
+  const [local, domain] = [address.slice(0, at), address.slice(at + 1)]
+  const labels = domain.toLowerCase().split('.')
+  return (
+    local.length <= 64 &&
+    LocalPart.test(local) &&
+    domain.length <= 253 &&
+    labels.length >= 2 &&
+    labels.every((label) => label.length <= 63 && DomainLabel.test(label)) &&
+    TopLevelDomain.test(_.last(labels) as string)
+  )
+}
+
+/**
+ * Normalizes an email address, trimming it and lowercasing its domain. The
+ * local part keeps its case, some mail servers treat it as case sensitive.
+ *
+ * @param {string} raw - the address, optionally in a display name form ("Jane <jane@x.com>")
+ * @param {boolean} allowDisplayName - extract the address from a display name form, rejected otherwise
+ * @return {string | undefined} the normalized address, undefined when raw isn't a valid address
+ */
+export const normalizeEmailAddress = (
+  raw: string,
+  allowDisplayName = true
+): string | undefined => {
+  const trimmed = raw.trim().replace(/^mailto:/i, '')
+  const displayName = trimmed.match(DisplayNameForm)
+  if (displayName && !allowDisplayName) {
+    return undefined
+  }
+  const address = displayName ? displayName[1].trim() : trimmed
+  if (!isValidEmailAddress(address)) {
+    return undefined
+  }
+  const at = address.lastIndexOf('@')
+  return `${address.slice(0, at)}@${address.slice(at + 1).toLowerCase()}`
+}
+
+/**
+ * EmailField trims and normalizes email addresses, extracting them from
+ * display name forms unless `allowDisplayName` is false. Role accounts
+ * ('info@') and disposable domains can be flagged with a warning.
+ *
+ * Uniqueness is case sensitive, pair a `unique` EmailField with
+ * UniqueIgnoringCaseRecordsCompute.
+ */
+export const EmailField = makeField<
+  string,
+  {
+    allowDisplayName?: boolean
+    flagRoleAccounts?: boolean
+    flagDisposableDomains?: boolean
+  }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { allowDisplayName, flagRoleAccounts, flagDisposableDomains } = {
+    ...{
+      allowDisplayName: true,
+      flagRoleAccounts: false,
+      flagDisposableDomains: false,
+    },
+    ...passedOptions,
+  }
+
+  if (_.keys(passedOptions).includes('cast')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden cast function`
+    )
+  }
+
+  const cast = StringChainCast((val: string): string => {
+    return normalizeEmailAddress(val, allowDisplayName) ?? val.trim()
+  })
+
+  const validate = (val: string): void | Message[] => {
+    if (!isValidEmailAddress(val)) {
+      return [
+        new Message(
+          `'${val}' is not a valid email address`,
+          'error',
+          'validate'
+        ),
+      ]
+    }
+
+    const [local, domain] = [
+      val.slice(0, val.lastIndexOf('@')).toLowerCase(),
+      val.slice(val.lastIndexOf('@') + 1),
+    ]
+    const warnings: Message[] = []
+    if (flagRoleAccounts && RoleAccounts.includes(local)) {
+      warnings.push(
+        new Message(
+          `'${val}' looks like a role account rather than a person's address`,
+          'warn',
+          'validate'
+        )
+      )
+    }
+    if (
+      flagDisposableDomains &&
+      ListDisposableEmailDomainsFragment.includes(domain)
+    ) {
+      warnings.push(
+        new Message(
+          `'${domain}' is a disposable email domain`,
+          'warn',
+          'validate'
+        )
+      )
+    }
+    return [...warnings, ...(mergedOpts.validate(val) || [])]
+  }
+
+  return new Field(mergeFieldOptions(mergedOpts, { cast, validate }))
+})
@@ -0,0 +1,89 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import { LanguageField, findLanguageCode } from './LanguageField'
+
+const LanguageSheet = new Sheet('LanguageSheet', {
+  language: LanguageField({}),
+  language3: LanguageField({ format: 'iso639-3' }),
+})
+
+const LanguageBook = new Workbook({
+  name: 'LanguageBook',
+  namespace: 'test',
+  sheets: { LanguageSheet },
+})
+
+describe('findLanguageCode ->', () => {
+  test('codes and names resolve to the same language', () => {
+    expect(findLanguageCode('fr')).toBe('fr')
+    expect(findLanguageCode('FRA')).toBe('fr')
+    expect(findLanguageCode('French')).toBe('fr')
+    expect(findLanguageCode('français')).toBe('fr')
+    expect(findLanguageCode('Francais')).toBe('fr')
+  })
+
+  test('iso639-3 format', () => {
+    expect(findLanguageCode('en', 'iso639-3')).toBe('eng')
+    expect(findLanguageCode('Chinese', 'iso639-3')).toBe('zho')
+  })
+
+  test('unknown languages', () => {
+    expect(findLanguageCode('Klingon')).toBeUndefined()
+    expect(findLanguageCode('xx')).toBeUndefined()
+  })
+})
+
+describe('LanguageField ->', () => {
+  const testSheet = new SheetTester(LanguageBook, 'LanguageSheet')
+
+  test('values are normalized to the configured format', async () => {
+    const res = await testSheet.testRecord({
+      language: 'eng',
+      language3: 'Español',
+    })
+    expect(res['language']).toBe('en')
+    expect(res['language3']).toBe('spa')
+  })
+
+  test('unknown languages fail to cast', async () => {
+    const resMessages = await testSheet.testMessage({
+      language: 'Elvish',
+      language3: '',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'language',
+        "Error: 'Elvish' is not a known ISO 639 language",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('languages without an ISO 639-1 code', async () => {
+    expect(findLanguageCode('yue', 'iso639-3')).toBe('yue')
+    expect(findLanguageCode('Mandarin Chinese', 'iso639-3')).toBe('cmn')
+    expect(findLanguageCode('yue')).toBeUndefined()
+
+    const res = await testSheet.testRecord({ language: '', language3: 'CMN' })
+    expect(res['language3']).toBe('cmn')
+
+    const resMessages = await testSheet.testMessage({
+      language: 'yue',
+      language3: '',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'language',
+        "Error: 'yue' has no ISO 639-1 code",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('overriding cast throws', () => {
+    expect(() => LanguageField({ cast: (val: any) => val })).toThrow()
+  })
+})
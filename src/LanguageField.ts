@@ -0,0 +1,121 @@
+import _ from 'lodash'
+import {
+  stdlib,
+  Field,
+  TextField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+
+import {
+  ListIso6393LanguagesFragment,
+  ListLanguagesFragment,
+} from './fragments/languages'
+const { StringChainCast } = stdlib.cast
+
+type LanguageFormat = 'iso639-1' | 'iso639-3'
+
+const normalizeName = (x: string): string =>
+  _.deburr(x)
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+
+// the ISO 639-1 code of each language that has one, by its ISO 639-3 code
+const Iso6391Codes: Record<string, string> = _.reduce(
+  ListLanguagesFragment,
+  (codes, { iso6393 }, iso6391) => ({ ...codes, [iso6393]: iso6391 }),
+  {} as Record<string, string>
+)
+
+const Languages = [
+  ..._.map(ListLanguagesFragment, ({ iso6393, name, nativeName }, iso6391) => ({
+    iso6393,
+    codes: [iso6391, iso6393],
+    names: [name, ...nativeName.split(/[,;]/)],
+  })),
+  ..._.map(ListIso6393LanguagesFragment, ({ name }, iso6393) => ({
+    iso6393,
+    codes: [iso6393],
+    names: [name],
+  })),
+]
+
+// every accepted spelling of a language, mapped to its ISO 639-3 code. Codes
+// come before names and languages with an ISO 639-1 code before the others,
+// the first language a spelling belongs to keeps it
+const LanguageAliases: Record<string, string> = [
+  ...Languages.flatMap(({ iso6393, codes }) =>
+    codes.map((code) => [code, iso6393])
+  ),
+  ...Languages.flatMap(({ iso6393, names }) =>
+    names.map((name) => [normalizeName(name), iso6393])
+  ),
+].reduce((aliases, [alias, iso6393]) => {
+  if (alias !== '' && aliases[alias] === undefined) {
+    aliases[alias] = iso6393
+  }
+  return aliases
+}, {} as Record<string, string>)
+
+/**
+ * Finds the language a value refers to. Accepts ISO 639-1 codes ('fr'),
+ * ISO 639-3 codes ('fra', 'yue'), English names ('French', 'Yue Chinese')
+ * and native names ('français'), ignoring case and accents.
+ *
+ * @param {string} raw - the language to look up
+ * @param {string} format - the code to return, 'iso639-1' or 'iso639-3'
+ * @return {string | undefined} the language code, undefined when raw isn't a known language or has no code in format
+ */
+export const findLanguageCode = (
+  raw: string,
+  format: LanguageFormat = 'iso639-1'
+): string | undefined => {
+  const key = _.deburr(raw).trim().toLowerCase()
+  const iso6393 = LanguageAliases[key] ?? LanguageAliases[normalizeName(key)]
+  if (iso6393 === undefined) {
+    return undefined
+  }
+  return format === 'iso639-1' ? Iso6391Codes[iso6393] : iso6393
+}
+
+/**
+ * LanguageField resolves codes and names of languages to a single ISO 639
+ * code, values that aren't a known language fail to cast. With the default
+ * format of 'iso639-1', languages without an ISO 639-1 code, like 'yue', fail
+ * to cast too, use 'iso639-3' to accept them.
+ */
+export const LanguageField = makeField<string, { format?: LanguageFormat }>(
+  TextField({}),
+  {},
+  (mergedOpts, passedOptions) => {
+    const { format } = {
+      ...{ format: 'iso639-1' as LanguageFormat },
+      ...passedOptions,
+    }
+
+    if (_.keys(passedOptions).includes('cast')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden cast function`
+      )
+    }
+    if (_.keys(passedOptions).includes('egressFormat')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden egressFormat function`
+      )
+    }
+
+    const cast = StringChainCast((val: string): string => {
+      const code = findLanguageCode(val, format)
+      if (code === undefined) {
+        throw new Error(
+          findLanguageCode(val, 'iso639-3') === undefined
+            ? `'${val}' is not a known ISO 639 language`
+            : `'${val}' has no ISO 639-1 code`
+        )
+      }
+      return code
+    })
+
+    return new Field(mergeFieldOptions(mergedOpts, { cast }))
+  }
+)
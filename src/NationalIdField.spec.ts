@@ -0,0 +1,189 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import {
+  NINO,
+  NationalIdField,
+  NationalIdMaskRecordCompute,
+  SIN,
+  SSN,
+  luhnCheck,
+  maskNationalIds,
+  normalizeNationalId,
+} from './NationalIdField'
+
+const NationalIdSheet = new Sheet(
+  'NationalIdSheet',
+  {
+    sin: NationalIdField({}),
+    maskedSin: NationalIdField({ scheme: 'SIN', mask: 'review' }),
+    egressSsn: NationalIdField({ scheme: 'SSN', mask: 'egress' }),
+    ssn: NationalIdField({ scheme: 'SSN' }),
+  },
+  { recordCompute: NationalIdMaskRecordCompute('maskedSin', 'SIN') }
+)
+
+const NationalIdBook = new Workbook({
+  name: 'NationalIdBook',
+  namespace: 'test',
+  sheets: { NationalIdSheet },
+})
+
+describe('normalizeNationalId ->', () => {
+  test('luhn checksum', () => {
+    expect(luhnCheck('046454286')).toBe(true)
+    expect(luhnCheck('046454287')).toBe(false)
+  })
+
+  test('SIN separators are normalized', () => {
+    expect(normalizeNationalId('123 456 782', SIN)).toBe('123-456-782')
+    expect(normalizeNationalId('123.456.782', SIN)).toBe('123-456-782')
+    expect(normalizeNationalId('123-456-789', SIN)).toBeUndefined()
+    expect(normalizeNationalId('12345678', SIN)).toBeUndefined()
+  })
+
+  test('SSN and NINO', () => {
+    expect(normalizeNationalId('123456789', SSN)).toBe('123-45-6789')
+    expect(normalizeNationalId('666-12-3456', SSN)).toBeUndefined()
+    expect(normalizeNationalId('ab123456c', NINO)).toBe('AB 12 34 56 C')
+    expect(normalizeNationalId('GB123456C', NINO)).toBeUndefined()
+  })
+})
+
+describe('NationalIdField ->', () => {
+  const testSheet = new SheetTester(NationalIdBook, 'NationalIdSheet')
+
+  test('values are stored formatted or masked', async () => {
+    const res = await testSheet.testRecord({
+      sin: '123 456 782',
+      maskedSin: '123456782',
+      ssn: '123 45 6789',
+    })
+    expect(res).toMatchObject({
+      sin: '123-456-782',
+      maskedSin: '***-***-782',
+      ssn: '123-45-6789',
+    })
+  })
+
+  test('masked values are only accepted when already stored', async () => {
+    const messages = await testSheet.testMessage({
+      sin: '',
+      maskedSin: '***-***-782',
+      ssn: '',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'maskedSin',
+        "'***-***-782' is masked, the full SIN is needed",
+        'error'
+      )
+    ).toBeTruthy()
+
+    const masked = await testSheet.testMessage({ sin: '***-***-782' })
+    expect(
+      matchSingleMessage(
+        masked,
+        'sin',
+        "Error: '***-***-782' is not a valid SIN",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('invalid identifiers fail to cast', async () => {
+    const resMessages = await testSheet.testMessage({
+      sin: '123-456-789',
+      maskedSin: '',
+      ssn: '',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'sin',
+        "Error: '123-456-789' is not a valid SIN",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('unknown schemes and masks throw', () => {
+    expect(() => NationalIdField({ scheme: 'XYZ' })).toThrow()
+    //@ts-ignore
+    expect(() => NationalIdField({ mask: true })).toThrow(
+      "Invalid mask of true, expected 'review' or 'egress'"
+    )
+  })
+
+  test('egress masked values are stored in full', async () => {
+    const res = await testSheet.testRecord({ egressSsn: '123456789' })
+    expect(res).toMatchObject({ egressSsn: '123-45-6789' })
+
+    const masked = await testSheet.testMessage({ egressSsn: '***-**-6789' })
+    expect(
+      matchSingleMessage(
+        masked,
+        'egressSsn',
+        "Error: '***-**-6789' is not a valid SSN",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+})
+
+describe('NationalIdMaskRecordCompute ->', () => {
+  const maskCompute = NationalIdMaskRecordCompute('maskedSin', 'SIN')
+
+  test('the full identifier is handed to onMask, not kept in the record', () => {
+    const onMask = jest.fn()
+    const record = new FlatfileRecord({
+      rawData: { maskedSin: '123 456 782' },
+      rowId: 1,
+    })
+    NationalIdMaskRecordCompute('maskedSin', 'SIN', onMask)(record)
+    expect(record.get('maskedSin')).toBe('***-***-782')
+    expect(record.getMetadata()).toEqual({
+      nationalIds: { maskedSin: '***-***-782' },
+    })
+    expect(onMask).toHaveBeenCalledWith(record, '123-456-782')
+  })
+
+  test('the stored masked value is accepted', () => {
+    const metadata = { nationalIds: { maskedSin: '***-***-782' } }
+    const stored = new FlatfileRecord({
+      rawData: { maskedSin: '***-***-782' },
+      rowId: 1,
+      metadata,
+    })
+    maskCompute(stored)
+    expect(stored.toJSON().info).toEqual([])
+
+    const other = new FlatfileRecord({
+      rawData: { maskedSin: '***-***-000' },
+      rowId: 1,
+      metadata,
+    })
+    maskCompute(other)
+    expect(other.toJSON().info).toHaveLength(1)
+  })
+})
+
+describe('maskNationalIds ->', () => {
+  test('only fields masked on egress are masked', () => {
+    expect(
+      maskNationalIds(NationalIdSheet, {
+        sin: '123-456-782',
+        maskedSin: '***-***-782',
+        egressSsn: '123-45-6789',
+        ssn: '123-45-6789',
+      })
+    ).toEqual({
+      sin: '123-456-782',
+      maskedSin: '***-***-782',
+      egressSsn: '***-**-6789',
+      ssn: '123-45-6789',
+    })
+  })
+})
@@ -0,0 +1,271 @@
+import _ from 'lodash'
+import { FlatfileRecord, TPrimitive } from '@flatfile/hooks'
+import {
+  stdlib,
+  Field,
+  Sheet,
+  TextField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+const { StringChainCast } = stdlib.cast
+
+/**
+ * A NationalIdScheme describes one kind of national identifier. Values are
+ * compacted (uppercased, spaces, dots and hyphens removed) before they are
+ * checked.
+ */
+export interface NationalIdScheme {
+  name: string
+  // shape of the compacted value
+  pattern: RegExp
+  // checksum and allocation rules, only called on values matching pattern
+  isValid: (compact: string) => boolean
+  format: (compact: string) => string
+  mask: (compact: string) => string
+  // shape of a masked value
+  masked: RegExp
+}
+
+/**
+ * Luhn (mod 10) checksum, used by Canadian SINs.
+ */
+export const luhnCheck = (digits: string): boolean => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .map(Number)
+    .reduce((acc, digit, index) => {
+      if (index % 2 === 0) {
+        return acc + digit
+      }
+      const doubled = digit * 2
+      return acc + (doubled > 9 ? doubled - 9 : doubled)
+    }, 0)
+  return sum % 10 === 0
+}
+
+export const SIN: NationalIdScheme = {
+  name: 'SIN',
+  pattern: /^\d{9}$/,
+  // SINs starting with 0 or 8 are never issued
+  isValid: (compact) => !/^[08]/.test(compact) && luhnCheck(compact),
+  format: (compact) => compact.replace(/^(\d{3})(\d{3})(\d{3})$/, '$1-$2-$3'),
+  mask: (compact) => `***-***-${compact.slice(6)}`,
+  masked: /^\*{3}-\*{3}-\d{3}$/,
+}
+
+export const SSN: NationalIdScheme = {
+  name: 'SSN',
+  pattern: /^\d{9}$/,
+  isValid: (compact) =>
+    !/^(000|666|9)/.test(compact) &&
+    compact.slice(3, 5) !== '00' &&
+    compact.slice(5) !== '0000',
+  format: (compact) => compact.replace(/^(\d{3})(\d{2})(\d{4})$/, '$1-$2-$3'),
+  mask: (compact) => `***-**-${compact.slice(5)}`,
+  masked: /^\*{3}-\*{2}-\d{4}$/,
+}
+
+export const NINO: NationalIdScheme = {
+  name: 'NINO',
+  pattern: /^[A-Z]{2}\d{6}[A-D]$/,
+  isValid: (compact) =>
+    /^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]/.test(compact) &&
+    !['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ'].includes(compact.slice(0, 2)),
+  format: (compact) =>
+    compact.replace(/^(\w{2})(\d{2})(\d{2})(\d{2})(\w)$/, '$1 $2 $3 $4 $5'),
+  mask: (compact) => `** ** ** ${compact.slice(6, 8)} ${compact.slice(8)}`,
+  masked: /^\*\* \*\* \*\* \d{2} [A-D]$/,
+}
+
+export const NationalIdSchemes: Record<string, NationalIdScheme> = {
+  SIN,
+  SSN,
+  NINO,
+}
+
+const compactNationalId = (raw: string): string =>
+  raw.toUpperCase().replace(/[\s.-]/g, '')
+
+const isValidNationalId = (compact: string, scheme: NationalIdScheme) =>
+  scheme.pattern.test(compact) && scheme.isValid(compact)
+
+/**
+ * Checks a national identifier and writes it in the scheme's format.
+ *
+ * @param {string} raw - the identifier, with or without separators
+ * @param {NationalIdScheme} scheme - the kind of identifier raw should be
+ * @return {string | undefined} the formatted identifier, undefined when raw isn't valid
+ */
+export const normalizeNationalId = (
+  raw: string,
+  scheme: NationalIdScheme
+): string | undefined => {
+  const compact = compactNationalId(raw)
+  return isValidNationalId(compact, scheme) ? scheme.format(compact) : undefined
+}
+
+type NationalIdSchemeOption = keyof typeof NationalIdSchemes | NationalIdScheme
+
+const resolveScheme = (
+  schemeOption: NationalIdSchemeOption
+): NationalIdScheme => {
+  const scheme = _.isString(schemeOption)
+    ? NationalIdSchemes[schemeOption]
+    : schemeOption
+  if (scheme === undefined) {
+    throw new Error(
+      `Invalid scheme of ${schemeOption}, expected one of ${_.keys(
+        NationalIdSchemes
+      )} or a NationalIdScheme`
+    )
+  }
+  return scheme
+}
+
+/**
+ * Where a NationalIdField masks its identifiers:
+ * - 'review': the sheet stores the masked identifier, reviewers and every
+ *   export only see the masked value. Pair the field with
+ *   NationalIdMaskRecordCompute.
+ * - 'egress': the sheet stores the full identifier, so reviewers can correct
+ *   it, and maskNationalIds masks it in the values the workbook's own code
+ *   sends out, e.g. from a sheet action.
+ */
+export type NationalIdMask = 'review' | 'egress'
+
+/**
+ * NationalIdField checks national identifiers such as SINs and stores them
+ * in the scheme's format. Pass a scheme of your own for identifiers other
+ * than SIN, SSN and NINO.
+ *
+ * Without `mask`, review and export both show the full identifier, see
+ * NationalIdMask for the masking modes. With a `mask` of 'review', values
+ * that are already masked ('***-***-782') get through the cast and are
+ * checked by NationalIdMaskRecordCompute.
+ */
+export const NationalIdField = makeField<
+  string,
+  { scheme?: NationalIdSchemeOption; mask?: NationalIdMask }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { scheme: schemeOption, mask } = {
+    ...{ scheme: 'SIN' },
+    ...passedOptions,
+  }
+  if (mask !== undefined && !['review', 'egress'].includes(mask)) {
+    throw new Error(`Invalid mask of ${mask}, expected 'review' or 'egress'`)
+  }
+  const scheme = resolveScheme(schemeOption)
+
+  if (_.keys(passedOptions).includes('cast')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden cast function`
+    )
+  }
+  if (_.keys(passedOptions).includes('egressFormat')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden egressFormat function`
+    )
+  }
+
+  const cast = StringChainCast((val: string): string => {
+    const trimmed = val.trim()
+    // checked against the record by NationalIdMaskRecordCompute
+    if (mask === 'review' && scheme.masked.test(trimmed)) {
+      return trimmed
+    }
+    const compact = compactNationalId(trimmed)
+    if (!isValidNationalId(compact, scheme)) {
+      throw new Error(`'${trimmed}' is not a valid ${scheme.name}`)
+    }
+    return scheme.format(compact)
+  })
+
+  return new Field(mergeFieldOptions(mergedOpts, { cast }))
+})
+
+/**
+ * Where NationalIdMaskRecordCompute keeps the masked form of the identifiers
+ * it masked, in the record's metadata. The full identifiers are never kept
+ * in the record.
+ */
+export interface MaskedNationalIds {
+  nationalIds?: Record<string, string>
+}
+
+/**
+ * Builds a recordCompute that masks the identifiers of a NationalIdField
+ * with a `mask` of 'review'. The full identifier is handed to onMask, e.g.
+ * to keep it in a store of the integration that needs it, and is gone from
+ * the sheet afterwards, exports only hold the masked value. A masked value
+ * is only accepted when it is the one already stored for the record,
+ * anything else that looks masked is an error.
+ *
+ * @example
+ * const sinMaskCompute = NationalIdMaskRecordCompute('SINNumber', 'SIN')
+ */
+export const NationalIdMaskRecordCompute = (
+  field: string,
+  schemeOption: NationalIdSchemeOption = 'SIN',
+  onMask?: (record: FlatfileRecord, value: string) => void
+) => {
+  const scheme = resolveScheme(schemeOption)
+
+  return (record: FlatfileRecord): void => {
+    const value = record.get(field)
+    if (!_.isString(value) || value === '') {
+      return
+    }
+    const metadata = record.getMetadata() as MaskedNationalIds
+
+    if (scheme.masked.test(value)) {
+      if (metadata.nationalIds?.[field] !== value) {
+        record.addError(
+          field,
+          `'${value}' is masked, the full ${scheme.name} is needed`
+        )
+      }
+      return
+    }
+    const compact = compactNationalId(value)
+    if (!isValidNationalId(compact, scheme)) {
+      return
+    }
+    const masked = scheme.mask(compact)
+    onMask?.(record, scheme.format(compact))
+    record.setMetadata({
+      ...metadata,
+      nationalIds: { ...metadata.nationalIds, [field]: masked },
+    })
+    record.set(field, masked)
+  }
+}
+
+/**
+ * Masks the identifiers of the NationalIdFields of sheet with a `mask` of
+ * 'egress' in values, a record of the sheet on its way out of the workbook.
+ *
+ * @param {Sheet} sheet - the sheet values belong to
+ * @param {Record<string, TPrimitive>} values - the values of a record, by field key
+ * @return {Record<string, TPrimitive>} a copy of values with the identifiers masked
+ *
+ * @example
+ * const row = maskNationalIds(Employees, { SINNumber: '123-456-782' })
+ */
+export const maskNationalIds = (
+  sheet: Sheet<any>,
+  values: Record<string, TPrimitive>
+): Record<string, TPrimitive> =>
+  _.mapValues(values, (value, key) => {
+    const options = sheet.fields[key]?.options as {
+      scheme?: NationalIdSchemeOption
+      mask?: NationalIdMask
+    }
+    if (options?.mask !== 'egress' || !_.isString(value)) {
+      return value
+    }
+    const scheme = resolveScheme(options.scheme ?? 'SIN')
+    const compact = compactNationalId(value)
+    return isValidNationalId(compact, scheme) ? scheme.mask(compact) : value
+  })
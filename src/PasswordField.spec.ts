@@ -0,0 +1,112 @@
+import { Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import {
+  CharacterClass,
+  PasswordField,
+  PasswordRecordCompute,
+  generatePassword,
+  passwordPolicyValidator,
+} from './PasswordField'
+
+const PasswordSheet = new Sheet(
+  'PasswordSheet',
+  {
+    Email: TextField(),
+    Password: PasswordField({ required: true }),
+  },
+  {
+    recordCompute: PasswordRecordCompute({
+      passwordField: 'Password',
+      notEqualTo: ['Email'],
+      generate: true,
+    }),
+  }
+)
+
+const PasswordBook = new Workbook({
+  name: 'PasswordBook',
+  namespace: 'test',
+  sheets: { PasswordSheet },
+})
+
+describe('passwordPolicyValidator ->', () => {
+  test('every broken rule is reported without the password', () => {
+    const messages = passwordPolicyValidator()('abc def')
+    expect(messages.map((m) => m.message)).toEqual([
+      'Password must be between 8 and 72 characters long',
+      'Password must contain an uppercase letter',
+      'Password must contain a digit',
+      'Password must not contain whitespace',
+    ])
+  })
+
+  test('the password is shown when redact is false', () => {
+    const messages = passwordPolicyValidator({ minLength: 4 }, false)('abcD')
+    expect(messages.map((m) => m.message)).toEqual([
+      "Password 'abcD' must contain a digit",
+    ])
+  })
+
+  test('policies with a minLength above maxLength throw', () => {
+    expect(() =>
+      passwordPolicyValidator({ minLength: 10, maxLength: 8 })
+    ).toThrow()
+  })
+})
+
+describe('generatePassword ->', () => {
+  test('generated passwords meet the policy', () => {
+    const policy = {
+      minLength: 20,
+      maxLength: 24,
+      requiredClasses: [
+        'lower',
+        'upper',
+        'digit',
+        'symbol',
+      ] as CharacterClass[],
+    }
+    const validator = passwordPolicyValidator(policy)
+    for (let i = 0; i < 20; i++) {
+      const password = generatePassword(policy)
+      expect(password).toHaveLength(20)
+      expect(validator(password)).toEqual([])
+    }
+  })
+})
+
+describe('PasswordField ->', () => {
+  const testSheet = new SheetTester(PasswordBook, 'PasswordSheet')
+
+  test('empty passwords are generated', async () => {
+    const record = { Email: 'jane@x.com', Password: '' }
+    const res = await testSheet.testRecord(record)
+    expect(res['Password']).toHaveLength(16)
+    const messages = await testSheet.testMessage(record)
+    expect(
+      matchSingleMessage(
+        messages,
+        'Password',
+        'A random password was generated',
+        'info'
+      )
+    ).toBeTruthy()
+    expect(messages).toHaveLength(1)
+  })
+
+  test('passwords must not be the same as other fields', async () => {
+    const messages = await testSheet.testMessage({
+      Email: 'Jane1@x.com',
+      Password: 'jane1@X.com',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'Password',
+        'Password must not be the same as Email',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+})
@@ -0,0 +1,201 @@
+import _ from 'lodash'
+import { randomInt } from 'crypto'
+import { FlatfileRecord } from '@flatfile/hooks'
+import {
+  Field,
+  Message,
+  TextField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+
+import { Validator, all, length, not, regex } from './validators'
+
+export type CharacterClass = 'lower' | 'upper' | 'digit' | 'symbol'
+
+export interface PasswordPolicy {
+  minLength: number
+  maxLength: number
+  requiredClasses: CharacterClass[]
+  allowWhitespace: boolean
+}
+
+export const DefaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 72,
+  requiredClasses: ['lower', 'upper', 'digit'],
+  allowWhitespace: false,
+}
+
+const CharacterClasses: Record<
+  CharacterClass,
+  { name: string; pattern: RegExp; characters: string }
+> = {
+  lower: {
+    name: 'a lowercase letter',
+    pattern: /[a-z]/,
+    characters: 'abcdefghijkmnopqrstuvwxyz',
+  },
+  upper: {
+    name: 'an uppercase letter',
+    pattern: /[A-Z]/,
+    characters: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  },
+  digit: { name: 'a digit', pattern: /\d/, characters: '23456789' },
+  symbol: {
+    name: 'a symbol',
+    pattern: /[^a-zA-Z\d\s]/,
+    characters: '!#$%&*+-=?@^_~',
+  },
+}
+
+const resolvePolicy = (
+  policy: Partial<PasswordPolicy> = {}
+): PasswordPolicy => {
+  const resolved = { ...DefaultPasswordPolicy, ...policy }
+  if (resolved.minLength > resolved.maxLength) {
+    throw new Error(
+      `Invalid password policy, minLength ${resolved.minLength} is greater than maxLength ${resolved.maxLength}`
+    )
+  }
+  return resolved
+}
+
+/**
+ * Builds the Validator for a password policy. With redact, messages never
+ * contain the password.
+ */
+export const passwordPolicyValidator = (
+  policy: Partial<PasswordPolicy> = {},
+  redact = true
+): Validator<string> => {
+  const { minLength, maxLength, requiredClasses, allowWhitespace } =
+    resolvePolicy(policy)
+  const subject = redact ? 'Password' : "Password '{value}'"
+
+  return all(
+    length(
+      { min: minLength, max: maxLength },
+      { message: `${subject} must be between {min} and {max} characters long` }
+    ),
+    ...requiredClasses.map((characterClass) =>
+      regex(CharacterClasses[characterClass].pattern, {
+        message: `${subject} must contain ${CharacterClasses[characterClass].name}`,
+      })
+    ),
+    ...(allowWhitespace
+      ? []
+      : [
+          not(regex(/\s/), {
+            message: `${subject} must not contain whitespace`,
+          }),
+        ])
+  )
+}
+
+/**
+ * Generates a random password that meets a policy, using a cryptographically
+ * secure source. Characters that are easily confused (l, 1, O, 0) are left
+ * out.
+ *
+ * @param {Partial<PasswordPolicy>} policy - the policy to meet, defaults to DefaultPasswordPolicy
+ * @return {string} the password, 16 characters long unless the policy says otherwise
+ */
+export const generatePassword = (
+  policy: Partial<PasswordPolicy> = {}
+): string => {
+  const { minLength, maxLength, requiredClasses } = resolvePolicy(policy)
+  const size = _.clamp(16, minLength, maxLength)
+  const pick = (characters: string) => characters[randomInt(characters.length)]
+
+  const alphabet = _.values(CharacterClasses)
+    .map(({ characters }) => characters)
+    .join('')
+  const characters = [
+    ...requiredClasses.map((c) => pick(CharacterClasses[c].characters)),
+    ..._.times(size - requiredClasses.length, () => pick(alphabet)),
+  ]
+
+  // Fisher-Yates, so the required characters aren't always first
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[characters[i], characters[j]] = [characters[j], characters[i]]
+  }
+  return characters.join('')
+}
+
+/**
+ * PasswordField checks passwords against a PasswordPolicy. Messages don't
+ * show the password unless `redact` is false.
+ *
+ * Pair it with PasswordRecordCompute to generate passwords for empty cells
+ * and to check the password against other fields of the record.
+ */
+export const PasswordField = makeField<
+  string,
+  { policy?: Partial<PasswordPolicy>; redact?: boolean }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { policy, redact } = {
+    ...{ policy: {}, redact: true },
+    ...passedOptions,
+  }
+  const policyValidator = passwordPolicyValidator(policy, redact)
+
+  const validate = (val: string): void | Message[] => {
+    return [...policyValidator(val), ...(mergedOpts.validate(val) || [])]
+  }
+
+  return new Field(mergeFieldOptions(mergedOpts, { validate }))
+})
+
+export interface PasswordRecordComputeOptions {
+  passwordField: string
+  // fields the password must not be equal to, ignoring case
+  notEqualTo?: string[]
+  // generate a password meeting policy when the password field is empty
+  generate?: boolean
+  policy?: Partial<PasswordPolicy>
+}
+
+/**
+ * Builds a recordCompute that generates passwords for empty cells and checks
+ * the password isn't the same as other fields of the record, e.g. the email
+ * address.
+ *
+ * @example
+ * const passwordCompute = PasswordRecordCompute({
+ *   passwordField: 'Password',
+ *   notEqualTo: ['EmailAddress', 'FirstName', 'LastName'],
+ *   generate: true,
+ * })
+ */
+export const PasswordRecordCompute = ({
+  passwordField,
+  notEqualTo = [],
+  generate = false,
+  policy = {},
+}: PasswordRecordComputeOptions) => {
+  resolvePolicy(policy)
+
+  return (record: FlatfileRecord): void => {
+    const password = record.get(passwordField)
+    if (_.isNil(password) || password === '') {
+      if (generate) {
+        record.set(passwordField, generatePassword(policy))
+        record.addInfo(passwordField, 'A random password was generated')
+      }
+      return
+    }
+
+    const normalized = String(password).trim().toLowerCase()
+    notEqualTo.forEach((field) => {
+      const other = record.get(field)
+      if (_.isString(other) && other.trim().toLowerCase() === normalized) {
+        record.addError(
+          passwordField,
+          `Password must not be the same as ${field}`
+        )
+      }
+    })
+  }
+}
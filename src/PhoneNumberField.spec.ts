@@ -0,0 +1,86 @@
+import { OptionField, Sheet, Workbook } from '@flatfile/configure'
+
+import { ListCountriesFragment } from './fragments/countries'
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import { PhoneNumberField, PhoneNumberRecordCompute } from './PhoneNumberField'
+
+const PhoneSheet = new Sheet(
+  'PhoneSheet',
+  {
+    phone: PhoneNumberField({}),
+    caPhone: PhoneNumberField({ defaultCountry: 'CA', format: 'national' }),
+    intlPhone: PhoneNumberField({ format: 'international' }),
+    Country: OptionField({ options: { ...ListCountriesFragment } }),
+  },
+  {
+    recordCompute: PhoneNumberRecordCompute({
+      phoneNumberFields: ['phone', 'intlPhone'],
+      countryField: 'Country',
+    }),
+  }
+)
+
+const PhoneBook = new Workbook({
+  name: 'PhoneBook',
+  namespace: 'test',
+  sheets: { PhoneSheet },
+})
+
+describe('PhoneNumberField ->', () => {
+  const testSheet = new SheetTester(PhoneBook, 'PhoneSheet')
+
+  test('international numbers are stored as E.164', async () => {
+    const res = await testSheet.testRecord({
+      phone: '+1 (416) 555-0100',
+      Country: '',
+    })
+    expect(res['phone']).toBe('+14165550100')
+  })
+
+  test("the record's Country is used when there is no country code", async () => {
+    const res = await testSheet.testRecord({
+      phone: '020 7946 0000',
+      Country: 'GB',
+    })
+    expect(res['phone']).toBe('+442079460000')
+  })
+
+  test('extensions are preserved', async () => {
+    const res = await testSheet.testRecord({
+      phone: '416-555-0100 ext. 123',
+      intlPhone: '416-555-0100 x45',
+      Country: 'CA',
+    })
+    expect(res['phone']).toBe('+14165550100;ext=123')
+    expect(res['intlPhone']).toBe('+1 416 555 0100 ext. 45')
+  })
+
+  test('national format uses defaultCountry', async () => {
+    const res = await testSheet.testRecord({
+      caPhone: '+1 416 555 0100',
+      Country: '',
+    })
+    expect(res['caPhone']).toBe('(416) 555-0100')
+  })
+
+  test('unparseable numbers are errors', async () => {
+    const messages = await testSheet.testMessage({
+      phone: '555-0100',
+      Country: '',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'phone',
+        "'555-0100' could not be parsed as a phone number",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('national format requires defaultCountry', () => {
+    expect(() => PhoneNumberField({ format: 'national' })).toThrow(
+      "Cannot instantiate a PhoneNumberField with a format of 'national' without a defaultCountry"
+    )
+  })
+})
@@ -0,0 +1,149 @@
+import _ from 'lodash'
+import {
+  CountryCode,
+  PhoneNumber,
+  parsePhoneNumberFromString,
+} from 'libphonenumber-js'
+import { FlatfileRecord } from '@flatfile/hooks'
+import {
+  stdlib,
+  Field,
+  Message,
+  TextField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+const { StringChainCast } = stdlib.cast
+
+type PhoneNumberFormat = 'E.164' | 'national' | 'international'
+
+// E.164 has no room for extensions, they are kept in the RFC 3966 style
+const E164WithExtension = /^\+[1-9]\d{1,14}(;ext=\d+)?$/
+
+const toE164 = (phone: PhoneNumber): string =>
+  phone.ext ? `${phone.number};ext=${phone.ext}` : phone.number
+
+/**
+ * Parses a phone number in any local or international format.
+ *
+ * @param {string} raw - the phone number to parse
+ * @param {string} region - ISO 3166 country code used when raw has no country code
+ * @return {string | undefined} the E.164 number with any extension, undefined when raw isn't a valid number
+ */
+export const parsePhoneNumber = (
+  raw: string,
+  region?: string
+): string | undefined => {
+  const phone = parsePhoneNumberFromString(raw, region as CountryCode)
+  if (phone === undefined || !phone.isValid()) {
+    return undefined
+  }
+  return toE164(phone)
+}
+
+export const isE164 = (val: string): boolean => E164WithExtension.test(val)
+
+/**
+ * PhoneNumberField stores numbers as E.164 and writes them out in the
+ * configured format. Numbers without a country code are parsed with
+ * `defaultCountry` when the field is cast, any left over are resolved with
+ * the record's country by PhoneNumberRecordCompute.
+ */
+export const PhoneNumberField = makeField<
+  string,
+  { format?: PhoneNumberFormat; defaultCountry?: string }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { format, defaultCountry } = {
+    ...{ format: 'E.164', defaultCountry: undefined },
+    ...passedOptions,
+  }
+
+  if (_.keys(passedOptions).includes('cast')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden cast function`
+    )
+  }
+  if (_.keys(passedOptions).includes('egressFormat')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden egressFormat function`
+    )
+  }
+  // national numbers can't be read back without knowing their country
+  if (format === 'national' && defaultCountry === undefined) {
+    throw new Error(
+      `Cannot instantiate a PhoneNumberField with a format of 'national' without a defaultCountry`
+    )
+  }
+
+  const cast = StringChainCast((val: string): string => {
+    return parsePhoneNumber(val, defaultCountry) ?? val.trim()
+  })
+
+  const validate = (val: string): void | Message[] => {
+    if (!isE164(val)) {
+      return [
+        new Message(
+          `'${val}' could not be parsed as a phone number`,
+          'error',
+          'validate'
+        ),
+      ]
+    }
+    return mergedOpts.validate(val)
+  }
+
+  const egressFormat = (val: string): string => {
+    const phone = isE164(val) ? parsePhoneNumberFromString(val) : undefined
+    if (phone === undefined || format === 'E.164') {
+      return val
+    }
+    return phone.format(format === 'national' ? 'NATIONAL' : 'INTERNATIONAL')
+  }
+
+  return new Field(
+    mergeFieldOptions(mergedOpts, { cast, validate, egressFormat })
+  )
+})
+
+export interface PhoneNumberRecordComputeOptions {
+  phoneNumberFields: string[]
+  countryField: string
+}
+
+/**
+ * Builds a recordCompute that parses the numbers PhoneNumberField couldn't,
+ * using the country field of the same record as the default region.
+ *
+ * @example
+ * const phoneCompute = PhoneNumberRecordCompute({
+ *   phoneNumberFields: ['MainPhoneNumber', 'FaxNumber'],
+ *   countryField: 'Country',
+ * })
+ */
+export const PhoneNumberRecordCompute = ({
+  phoneNumberFields,
+  countryField,
+}: PhoneNumberRecordComputeOptions) => {
+  return (record: FlatfileRecord): void => {
+    const country = record.get(countryField)
+    if (!_.isString(country) || country === '') {
+      return
+    }
+
+    phoneNumberFields.forEach((field) => {
+      const raw = record.get(field)
+      if (!_.isString(raw) || raw === '' || isE164(raw)) {
+        return
+      }
+
+      const parsed = parsePhoneNumber(raw, country)
+      if (parsed !== undefined) {
+        record.set(field, parsed)
+        record.addInfo(
+          field,
+          `'${raw}' was parsed as a phone number of country '${country}'`
+        )
+      }
+    })
+  }
+}
@@ -0,0 +1,933 @@
+import { Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import {
+  NumericDateFormat,
+  SmartDateField,
+  SmartDateLocaleRecordCompute,
+  SmartDateNumericRecordCompute,
+  SmartDateOrderRecordsCompute,
+  SmartDateRangeField,
+  SmartDateRangeRecordCompute,
+  SmartDateRelativeRecordCompute,
+  SmartDateTimezoneRecordCompute,
+  diagnoseDateField,
+  fillPeriod,
+  isValidTimezone,
+  parseDateRange,
+  parseLocalizedDate,
+  parseNumericDate,
+  parseRelativeDate,
+} from './SmartDateField'
+
+const TimezoneSheet = new Sheet(
+  'TimezoneSheet',
+  {
+    Timezone: TextField(),
+    StartDate: SmartDateField({ formatString: "yyyy-MM-dd'T'HH:mm'Z'" }),
+  },
+  {
+    recordCompute: SmartDateTimezoneRecordCompute({
+      timezoneField: 'Timezone',
+      dateFields: ['StartDate'],
+    }),
+  }
+)
+
+const TimezoneDaySheet = new Sheet(
+  'TimezoneDaySheet',
+  {
+    Timezone: TextField(),
+    StartDay: SmartDateField({ formatString: 'yyyy-MM-dd', precision: 'day' }),
+  },
+  {
+    recordCompute: SmartDateTimezoneRecordCompute({
+      timezoneField: 'Timezone',
+      dateFields: ['StartDay'],
+      precision: 'day',
+    }),
+  }
+)
+
+const TimezoneBook = new Workbook({
+  name: 'TimezoneBook',
+  namespace: 'test',
+  sheets: { TimezoneSheet, TimezoneDaySheet },
+})
+
+const LocaleSheet = new Sheet(
+  'LocaleSheet',
+  {
+    HireDate: SmartDateField({
+      formatString: 'yyyy-MM-dd',
+      locale: ['ja', 'en'],
+    }),
+  },
+  {
+    recordCompute: SmartDateLocaleRecordCompute({ HireDate: ['ja', 'en'] }),
+  }
+)
+
+const LocaleBook = new Workbook({
+  name: 'LocaleBook',
+  namespace: 'test',
+  sheets: { LocaleSheet },
+})
+
+describe('SmartDateField locale ->', () => {
+  test('dates in any chrono locale', () => {
+    expect(parseLocalizedDate('2009年2月7日', ['ja']).date).toStrictEqual(
+      new Date('2009-02-07T00:00:00.000Z')
+    )
+    expect(
+      parseLocalizedDate('7 de fevereiro de 2009', ['pt']).date
+    ).toStrictEqual(new Date('2009-02-07T00:00:00.000Z'))
+    expect(parseLocalizedDate('2009年2月7日', ['zh']).date).toStrictEqual(
+      new Date('2009-02-07T00:00:00.000Z')
+    )
+    expect(
+      parseLocalizedDate('7 de febrero de 2009', ['es']).date
+    ).toStrictEqual(new Date('2009-02-07T00:00:00.000Z'))
+    expect(parseLocalizedDate('7 febbraio 2009', ['it']).date).toStrictEqual(
+      new Date('2009-02-07T00:00:00.000Z')
+    )
+    expect(parseLocalizedDate('7 februari 2009', ['sv']).date).toStrictEqual(
+      new Date('2009-02-07T00:00:00.000Z')
+    )
+  })
+
+  test('relative dates are not read as dates', () => {
+    expect(() => parseLocalizedDate('in 2 weeks', ['en'])).toThrow(
+      "'in 2 weeks' returned no parse results"
+    )
+    expect(() => parseLocalizedDate('dans 2 semaines', ['fr'])).toThrow(
+      "'dans 2 semaines' returned no parse results"
+    )
+  })
+
+  test('the first locale that parses the date wins', () => {
+    expect(parseLocalizedDate('Feb072009', ['ja', 'en'])).toStrictEqual({
+      date: new Date('2009-02-07T00:00:00.000Z'),
+      locale: 'en',
+    })
+    // en reads 06/02/2009 month first, fr day first
+    expect(parseLocalizedDate('06/02/2009', ['fr', 'en'])).toStrictEqual({
+      date: new Date('2009-02-06T00:00:00.000Z'),
+      locale: 'fr',
+    })
+  })
+
+  test('the error of the first locale is thrown', () => {
+    expect(() => parseLocalizedDate('25-Feb-19', ['ja', 'en'])).toThrow(
+      "'25-Feb-19' returned no parse results"
+    )
+  })
+
+  test('unsupported locales throw', () => {
+    //@ts-ignore
+    expect(() => SmartDateField({ locale: ['ja', 'xx'] })).toThrow(
+      'Invalid locale of ja,xx'
+    )
+    expect(() => SmartDateField({ locale: [] })).toThrow('Invalid locale')
+  })
+
+  test('the locale that parsed each date is reported', async () => {
+    const testSheet = new SheetTester(LocaleBook, 'LocaleSheet')
+    const res = await testSheet.testRecords([
+      { HireDate: '2009年2月7日' },
+      { HireDate: 'Feb072009' },
+    ])
+    expect(res.map((r) => r['HireDate'])).toEqual(['2009-02-07', '2009-02-07'])
+    const messages = await testSheet.testMessage({ HireDate: 'Feb072009' })
+    expect(
+      matchSingleMessage(
+        messages,
+        'HireDate',
+        "'Feb072009' was read with the en locale",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+})
+
+const DateOrderSheet = new Sheet(
+  'DateOrderSheet',
+  {
+    HireDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+  },
+  {
+    batchRecordsCompute: SmartDateOrderRecordsCompute({
+      dateFields: ['HireDate'],
+    }),
+  }
+)
+
+const DateOrderBook = new Workbook({
+  name: 'DateOrderBook',
+  namespace: 'test',
+  sheets: { DateOrderSheet },
+})
+
+describe('SmartDateField dateOrder ->', () => {
+  test('numeric dates are read in dateOrder', () => {
+    const dmy = SmartDateField({ dateOrder: 'DMY' })
+    expect(dmy.options.cast('05/10/2022')).toStrictEqual(
+      new Date('2022-10-05T00:00:00.000Z')
+    )
+    expect(dmy.options.cast('5.10.2022 09:30')).toStrictEqual(
+      new Date('2022-10-05T09:30:00.000Z')
+    )
+    const mdy = SmartDateField({ dateOrder: 'MDY', locale: 'fr' })
+    expect(mdy.options.cast('05/10/2022')).toStrictEqual(
+      new Date('2022-05-10T00:00:00.000Z')
+    )
+  })
+
+  test('dates with a two digit year are read in dateOrder', () => {
+    const dmy = SmartDateField({ dateOrder: 'DMY' })
+    expect(dmy.options.cast('05/10/22')).toStrictEqual(
+      new Date('2022-10-05T00:00:00.000Z')
+    )
+    expect(dmy.options.cast('31.12.99')).toStrictEqual(
+      new Date('1999-12-31T00:00:00.000Z')
+    )
+    expect(() => dmy.options.cast('02/18/09')).toThrow(
+      "'02/18/09' is not a valid DMY date"
+    )
+    const ymd = SmartDateField({ dateOrder: 'YMD' })
+    expect(ymd.options.cast('22/10/05')).toStrictEqual(
+      new Date('2022-10-05T00:00:00.000Z')
+    )
+  })
+
+  test('dates starting with the year are always year, month, day', () => {
+    const dmy = SmartDateField({ dateOrder: 'DMY' })
+    expect(dmy.options.cast('2022/05/10')).toStrictEqual(
+      new Date('2022-05-10T00:00:00.000Z')
+    )
+    expect(dmy.options.cast('October 5, 2022')).toStrictEqual(
+      new Date('2022-10-05T00:00:00.000Z')
+    )
+  })
+
+  test('dates that are invalid in dateOrder throw', () => {
+    const dmy = SmartDateField({ dateOrder: 'DMY' })
+    expect(() => dmy.options.cast('02/18/2009')).toThrow(
+      "'02/18/2009' is not a valid DMY date"
+    )
+    const ymd = SmartDateField({ dateOrder: 'YMD' })
+    expect(() => ymd.options.cast('05/10/2022')).toThrow(
+      "'05/10/2022' is not a valid YMD date"
+    )
+    //@ts-ignore
+    expect(() => SmartDateField({ dateOrder: 'DM' })).toThrow(
+      'Invalid dateOrder of DM'
+    )
+  })
+})
+
+describe('SmartDateOrderRecordsCompute ->', () => {
+  const testSheet = new SheetTester(DateOrderBook, 'DateOrderSheet')
+
+  test('the order is inferred from the rest of the column', async () => {
+    const records = [
+      { HireDate: '05/10/2022' },
+      { HireDate: '18/02/2009' },
+      { HireDate: '2022-03-04' },
+    ]
+    const res = await testSheet.testRecords(records)
+    expect(res.map((r) => r['HireDate'])).toEqual([
+      '2022-10-05',
+      '2009-02-18',
+      '2022-03-04',
+    ])
+    const messages = await testSheet.testMessages(records)
+    expect(
+      matchSingleMessage(
+        messages[0],
+        'HireDate',
+        "'05/10/2022' was read as DMY, like the other dates of HireDate",
+        'info'
+      )
+    ).toBeTruthy()
+    expect(messages[1]).toHaveLength(0)
+  })
+
+  test('dates with a two digit year are inferred and flagged too', async () => {
+    const inferred = await testSheet.testRecords([
+      { HireDate: '05/10/22' },
+      { HireDate: '18/02/09' },
+    ])
+    expect(inferred.map((r) => r['HireDate'])).toEqual([
+      '2022-10-05',
+      '2009-02-18',
+    ])
+
+    const [ambiguous] = await testSheet.testMessages([{ HireDate: '05/10/22' }])
+    expect(
+      matchSingleMessage(
+        ambiguous,
+        'HireDate',
+        "'05/10/22' could be MDY or DMY, no other date of HireDate tells which one is used",
+        'warn'
+      )
+    ).toBeTruthy()
+  })
+
+  test('month first columns keep the en reading', async () => {
+    const res = await testSheet.testRecords([
+      { HireDate: '05/10/2022' },
+      { HireDate: '02/17/2009' },
+    ])
+    expect(res.map((r) => r['HireDate'])).toEqual(['2022-05-10', '2009-02-17'])
+  })
+
+  test('ambiguous columns are flagged', async () => {
+    const records = [
+      { HireDate: '05/10/2022' },
+      { HireDate: '18/02/2009' },
+      { HireDate: '02/17/2009' },
+      { HireDate: '03/03/2009' },
+    ]
+    const res = await testSheet.testRecords(records)
+    expect(res[0]['HireDate']).toBe('2022-05-10')
+    const messages = await testSheet.testMessages(records)
+    expect(
+      matchSingleMessage(
+        messages[0],
+        'HireDate',
+        "'05/10/2022' could be MDY or DMY, no other date of HireDate tells which one is used",
+        'warn'
+      )
+    ).toBeTruthy()
+    // the same either way
+    expect(messages[3]).toHaveLength(0)
+  })
+})
+
+const NumericSheet = new Sheet(
+  'NumericSheet',
+  {
+    HireDate: SmartDateField({
+      formatString: 'yyyy-MM-dd',
+      numericDates: { formats: ['excel1900'] },
+    }),
+  },
+  {
+    recordCompute: SmartDateNumericRecordCompute({
+      dateFields: ['HireDate'],
+      numericDates: { formats: ['excel1900'] },
+    }),
+  }
+)
+
+const NumericBook = new Workbook({
+  name: 'NumericBook',
+  namespace: 'test',
+  sheets: { NumericSheet },
+})
+
+describe('parseNumericDate ->', () => {
+  const all = {
+    formats: [
+      'excel1900',
+      'excel1904',
+      'epochSeconds',
+      'epochMilliseconds',
+    ] as NumericDateFormat[],
+  }
+
+  test('excel serial dates', () => {
+    expect(parseNumericDate('44927', all)).toStrictEqual({
+      date: new Date('2023-01-01T00:00:00.000Z'),
+      format: 'excel1900',
+    })
+    expect(parseNumericDate('44927.375', all)?.date).toStrictEqual(
+      new Date('2023-01-01T09:00:00.000Z')
+    )
+    // before and after the 1900-02-29 Excel counts but that never existed
+    const since1900 = { ...all, min: new Date('1900-01-01T00:00:00.000Z') }
+    expect(parseNumericDate('59', since1900)?.date).toStrictEqual(
+      new Date('1900-02-28T00:00:00.000Z')
+    )
+    expect(parseNumericDate('61', since1900)?.date).toStrictEqual(
+      new Date('1900-03-01T00:00:00.000Z')
+    )
+    expect(
+      parseNumericDate('43465', { formats: ['excel1904'] })?.date
+    ).toStrictEqual(new Date('2023-01-01T00:00:00.000Z'))
+  })
+
+  test('unix timestamps', () => {
+    expect(parseNumericDate('1672531200', all)).toStrictEqual({
+      date: new Date('2023-01-01T00:00:00.000Z'),
+      format: 'epochSeconds',
+    })
+    expect(parseNumericDate('1672531200000', all)).toStrictEqual({
+      date: new Date('2023-01-01T00:00:00.000Z'),
+      format: 'epochMilliseconds',
+    })
+  })
+
+  test('numbers outside the bounds are not dates', () => {
+    // salaries, counts and years aren't dates between 1950 and five years from now
+    expect(parseNumericDate('60000', all)).toBeUndefined()
+    expect(parseNumericDate('75000', all)).toBeUndefined()
+    expect(parseNumericDate('12', all)).toBeUndefined()
+    expect(parseNumericDate('2019', all)).toBeUndefined()
+    expect(
+      parseNumericDate('60', {
+        formats: ['excel1900'],
+        min: new Date('1900-01-01T00:00:00.000Z'),
+      })
+    ).toBeUndefined()
+    expect(parseNumericDate('44927', { formats: ['epochSeconds'] })).toBe(
+      undefined
+    )
+    expect(
+      parseNumericDate('44927', {
+        formats: ['excel1900'],
+        min: new Date('2024-01-01'),
+      })
+    ).toBeUndefined()
+  })
+})
+
+describe('SmartDateField numericDates ->', () => {
+  test('numbers are only dates when numericDates is set', () => {
+    expect(() => SmartDateField({}).options.cast('44927')).toThrow(
+      "'44927' returned no parse results"
+    )
+    const field = SmartDateField({ numericDates: { formats: ['excel1900'] } })
+    expect(field.options.cast('44927')).toStrictEqual(
+      new Date('2023-01-01T00:00:00.000Z')
+    )
+    //@ts-ignore
+    expect(field.options.cast(44927)).toStrictEqual(
+      new Date('2023-01-01T00:00:00.000Z')
+    )
+    expect(() => field.options.cast('60000')).toThrow(
+      "'60000' returned no parse results"
+    )
+    expect(() =>
+      //@ts-ignore
+      SmartDateField({ numericDates: { formats: ['excel'] } })
+    ).toThrow('Invalid numericDates formats of excel')
+    expect(() =>
+      SmartDateField({
+        precision: 'year',
+        numericDates: { formats: ['excel1900'] },
+      })
+    ).toThrow('Invalid numericDates with a precision of year')
+  })
+
+  test('the original number is shown', async () => {
+    const testSheet = new SheetTester(NumericBook, 'NumericSheet')
+    const res = await testSheet.testRecord({ HireDate: '44927' })
+    expect(res['HireDate']).toBe('2023-01-01')
+    const messages = await testSheet.testMessage({ HireDate: '44927' })
+    expect(
+      matchSingleMessage(
+        messages,
+        'HireDate',
+        "'44927' was read as an Excel serial date, 2023-01-01T00:00:00.000Z",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+})
+
+describe('fillPeriod ->', () => {
+  test('periods are filled from their start or end', () => {
+    expect(fillPeriod({ year: 2019 }, 'day')).toStrictEqual(
+      new Date('2019-01-01T00:00:00.000Z')
+    )
+    expect(fillPeriod({ year: 2019 }, 'day', 'end')).toStrictEqual(
+      new Date('2019-12-31T00:00:00.000Z')
+    )
+    expect(fillPeriod({ year: 2020, month: 2 }, 'month', 'end')).toStrictEqual(
+      new Date('2020-02-29T00:00:00.000Z')
+    )
+    expect(
+      fillPeriod({ year: 2020, month: 4, months: 3 }, 'day', 'end')
+    ).toStrictEqual(new Date('2020-06-30T00:00:00.000Z'))
+    expect(
+      fillPeriod({ year: 2020, month: 4, day: 2 }, 'minute', 'end')
+    ).toStrictEqual(new Date('2020-04-02T23:59:00.000Z'))
+  })
+
+  test('dates more precise than precision are stored at their period', () => {
+    const parts = { year: 2020, month: 4, day: 2, hour: 9, minute: 30 }
+    expect(fillPeriod(parts, 'month')).toStrictEqual(
+      new Date('2020-04-01T00:00:00.000Z')
+    )
+    expect(fillPeriod(parts, 'year', 'end')).toStrictEqual(
+      new Date('2020-12-31T00:00:00.000Z')
+    )
+    expect(fillPeriod(parts, 'minute')).toStrictEqual(
+      new Date('2020-04-02T09:30:00.000Z')
+    )
+  })
+})
+
+describe('SmartDateField precision ->', () => {
+  test('partial dates are accepted', () => {
+    const month = SmartDateField({ precision: 'month' })
+    expect(month.options.cast('03/2019')).toStrictEqual(
+      new Date('2019-03-01T00:00:00.000Z')
+    )
+    expect(month.options.cast('2019-03')).toStrictEqual(
+      new Date('2019-03-01T00:00:00.000Z')
+    )
+    expect(month.options.cast('March 2019')).toStrictEqual(
+      new Date('2019-03-01T00:00:00.000Z')
+    )
+    expect(month.options.cast('March 17, 2019')).toStrictEqual(
+      new Date('2019-03-01T00:00:00.000Z')
+    )
+    const end = SmartDateField({ precision: 'month', fill: 'end' })
+    expect(end.options.cast('03/2020')).toStrictEqual(
+      new Date('2020-03-31T00:00:00.000Z')
+    )
+    const year = SmartDateField({ precision: 'year' })
+    expect(year.options.cast('2019')).toStrictEqual(
+      new Date('2019-01-01T00:00:00.000Z')
+    )
+    expect(year.options.cast('Q2 2020')).toStrictEqual(
+      new Date('2020-01-01T00:00:00.000Z')
+    )
+  })
+
+  test('dates less precise than precision are errors', () => {
+    const month = SmartDateField({ precision: 'month' })
+    expect(() => month.options.cast('2019')).toThrow(
+      "'2019' is less precise than a month"
+    )
+    expect(() => month.options.cast('Q2 2020')).toThrow(
+      "'Q2 2020' is less precise than a month"
+    )
+    const day = SmartDateField({ precision: 'day' })
+    expect(() => day.options.cast('2019')).toThrow(
+      "'2019' is less precise than a day"
+    )
+    expect(() => day.options.cast('March 2019')).toThrow(
+      "'March 2019' is less precise than a day"
+    )
+    expect(() =>
+      SmartDateField({ precision: 'minute' }).options.cast('2019-03-17')
+    ).toThrow("'2019-03-17' is less precise than a minute")
+  })
+
+  test('formatString defaults to the precision', () => {
+    const castAndFormat = (
+      field: ReturnType<typeof SmartDateField>,
+      raw: string
+    ) =>
+      (field.options.egressFormat as (val: Date) => string)(
+        field.options.cast(raw) as Date
+      )
+    expect(
+      castAndFormat(SmartDateField({ precision: 'month' }), 'March 17, 2019')
+    ).toBe('2019-03')
+    expect(
+      castAndFormat(
+        SmartDateField({ precision: 'year', fill: 'end' }),
+        'Q2 2020'
+      )
+    ).toBe('2020')
+  })
+
+  test('without precision partial dates are still errors', () => {
+    expect(() => SmartDateField({}).options.cast('03/2019')).toThrow(
+      "couldn't parse 03/2019 with a certain day"
+    )
+    expect(() =>
+      SmartDateField({ precision: 'month' }).options.cast('13/2019')
+    ).toThrow("'13/2019' returned no parse results")
+    //@ts-ignore
+    expect(() => SmartDateField({ precision: 'week' })).toThrow(
+      'Invalid precision of week'
+    )
+  })
+})
+
+const RelativeSheet = new Sheet(
+  'RelativeSheet',
+  {
+    OfferDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+    StartDate: SmartDateField({ formatString: 'yyyy-MM-dd', relative: {} }),
+  },
+  {
+    recordCompute: SmartDateRelativeRecordCompute({
+      dateFields: ['StartDate'],
+      anchorField: 'OfferDate',
+    }),
+  }
+)
+
+const RelativeBook = new Workbook({
+  name: 'RelativeBook',
+  namespace: 'test',
+  sheets: { RelativeSheet },
+})
+
+describe('SmartDateField relative ->', () => {
+  // a Wednesday
+  const anchor = new Date('2023-01-04T00:00:00.000Z')
+
+  test('relative dates are resolved against the anchor', () => {
+    expect(parseRelativeDate('next Monday', 'en', anchor)).toStrictEqual(
+      new Date('2023-01-09T00:00:00.000Z')
+    )
+    expect(parseRelativeDate('in 2 weeks', 'en', anchor)).toStrictEqual(
+      new Date('2023-01-18T00:00:00.000Z')
+    )
+    expect(parseRelativeDate('tomorrow', 'en', anchor)).toStrictEqual(
+      new Date('2023-01-05T00:00:00.000Z')
+    )
+    expect(parseRelativeDate('dans 2 semaines', 'fr', anchor)).toStrictEqual(
+      new Date('2023-01-18T00:00:00.000Z')
+    )
+    // only part of it is a date
+    expect(parseRelativeDate('tomorrow or so', 'en', anchor)).toBeUndefined()
+  })
+
+  test('relative dates are only accepted with relative', () => {
+    expect(() => SmartDateField({}).options.cast('tomorrow')).toThrow(
+      "'tomorrow' returned no parse results"
+    )
+    const field = SmartDateField({ relative: { anchor } })
+    expect(field.options.cast('next Monday')).toStrictEqual(
+      new Date('2023-01-09T00:00:00.000Z')
+    )
+    expect(field.options.cast('Feb 7 2009')).toStrictEqual(
+      new Date('2009-02-07T00:00:00.000Z')
+    )
+  })
+
+  test('relative dates are resolved against anchorField with a warning', async () => {
+    const testSheet = new SheetTester(RelativeBook, 'RelativeSheet')
+    const record = { OfferDate: '2023-01-04', StartDate: 'in 2 weeks' }
+    const res = await testSheet.testRecord(record)
+    expect(res['StartDate']).toBe('2023-01-18')
+    const messages = await testSheet.testMessage(record)
+    expect(
+      matchSingleMessage(
+        messages,
+        'StartDate',
+        "'in 2 weeks' is a relative date, it was read as 2023-01-18T00:00:00.000Z from OfferDate",
+        'warn'
+      )
+    ).toBeTruthy()
+
+    const absolute = await testSheet.testMessage({
+      OfferDate: '2023-01-04',
+      StartDate: '2023-02-01',
+    })
+    expect(absolute).toHaveLength(0)
+  })
+})
+
+const RangeSheet = new Sheet(
+  'RangeSheet',
+  {
+    LeavePeriod: SmartDateRangeField({ rangeFormat: '{start} – {end}' }),
+    LeaveStart: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+    LeaveEnd: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+  },
+  {
+    recordCompute: SmartDateRangeRecordCompute({
+      rangeField: 'LeavePeriod',
+      startField: 'LeaveStart',
+      endField: 'LeaveEnd',
+    }),
+  }
+)
+
+const RangeBook = new Workbook({
+  name: 'RangeBook',
+  namespace: 'test',
+  sheets: { RangeSheet },
+})
+
+describe('SmartDateRangeField ->', () => {
+  const range = (start: string, end: string) => ({
+    start: new Date(start),
+    end: new Date(end),
+  })
+
+  test('ranges are read with separators and as chrono ranges', () => {
+    const expected = range(
+      '2023-01-05T00:00:00.000Z',
+      '2023-02-10T00:00:00.000Z'
+    )
+    expect(parseDateRange('2023-01-05 – 2023-02-10', ['en'])).toStrictEqual(
+      expected
+    )
+    expect(parseDateRange('2023-01-05/2023-02-10', ['en'])).toStrictEqual(
+      expected
+    )
+    expect(
+      parseDateRange('5 Jan 2023 until 10 Feb 2023', ['en'])
+    ).toStrictEqual(expected)
+    expect(parseDateRange('Jan 5 to Feb 10, 2023', ['en'])).toStrictEqual(
+      expected
+    )
+    expect(parseDateRange('Jan 5 - 10, 2023', ['en'])).toStrictEqual(
+      range('2023-01-05T00:00:00.000Z', '2023-01-10T00:00:00.000Z')
+    )
+    expect(
+      parseDateRange('05/01/2023 - 10/02/2023', ['en'], { dateOrder: 'DMY' })
+    ).toStrictEqual(expected)
+  })
+
+  test('with precision the end is the end of its period', () => {
+    expect(
+      parseDateRange('2019 – 2020', ['en'], { precision: 'year' })
+    ).toStrictEqual(
+      range('2019-01-01T00:00:00.000Z', '2020-12-31T00:00:00.000Z')
+    )
+  })
+
+  test('ranges must have a certain start before their end', () => {
+    expect(() => parseDateRange('2023-02-10 – 2023-01-05', ['en'])).toThrow(
+      "'2023-02-10 – 2023-01-05' ends before it starts"
+    )
+    expect(() => parseDateRange('2023-01-05', ['en'])).toThrow(
+      "'2023-01-05' is not a date range with a certain start and end"
+    )
+    expect(() => parseDateRange('Jan 5 to Feb 10', ['en'])).toThrow(
+      "'Jan 5 to Feb 10' is not a date range with a certain start and end"
+    )
+  })
+
+  test('the range is stored in rangeFormat', () => {
+    const field = SmartDateRangeField({})
+    expect(field.options.cast('Jan 5 to Feb 10, 2023')).toBe(
+      '2023-01-05/2023-02-10'
+    )
+    const timed = SmartDateRangeField({
+      formatString: "yyyy-MM-dd'T'HH:mm'Z'",
+      rangeFormat: 'from {start} to {end}',
+    })
+    expect(timed.options.cast('2023-01-05T09:00 – 2023-01-05T17:00')).toBe(
+      'from 2023-01-05T09:00Z to 2023-01-05T17:00Z'
+    )
+  })
+
+  test('formats that cannot be read back throw', () => {
+    expect(() => SmartDateRangeField({ rangeFormat: '{start}' })).toThrow(
+      'Invalid rangeFormat of {start}, expected it to contain {start} and {end}'
+    )
+    expect(() => SmartDateRangeField({ formatString: 'MM-dd' })).toThrow(
+      "Error: instantiating a SmartDateRangeField with a formatString of MM-dd, and rangeFormat of '{start}/{end}'.  '02-05/02-24' can't be read back"
+    )
+  })
+
+  test('SmartDateRangeRecordCompute splits the range', async () => {
+    const testSheet = new SheetTester(RangeBook, 'RangeSheet')
+    const res = await testSheet.testRecord({
+      LeavePeriod: 'Jan 5 to Feb 10, 2023',
+      LeaveStart: '',
+      LeaveEnd: '',
+    })
+    expect(res).toMatchObject({
+      LeavePeriod: '2023-01-05 – 2023-02-10',
+      LeaveStart: '2023-01-05',
+      LeaveEnd: '2023-02-10',
+    })
+
+    const messages = await testSheet.testMessage({
+      LeavePeriod: '2023-01-05 – 2023-02-10',
+      LeaveStart: '2023-01-05',
+      LeaveEnd: '2023-02-11',
+    })
+    expect(messages).toHaveLength(1)
+    expect(
+      matchSingleMessage(
+        messages,
+        'LeaveEnd',
+        "LeaveEnd doesn't match the LeavePeriod of '2023-01-05 – 2023-02-10'",
+        'warn'
+      )
+    ).toBeTruthy()
+  })
+})
+
+describe('SmartDateField timezone ->', () => {
+  test('isValidTimezone', () => {
+    expect(isValidTimezone('Australia/Sydney')).toBe(true)
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false)
+  })
+
+  test('dates with a time of day are read in timezone', () => {
+    const field = SmartDateField({ timezone: 'Australia/Sydney' })
+    expect(field.options.cast('2023-01-01 09:00')).toStrictEqual(
+      new Date('2022-12-31T22:00:00.000Z')
+    )
+    // daylight saving time has ended by July
+    expect(field.options.cast('2023-07-01 09:00')).toStrictEqual(
+      new Date('2023-06-30T23:00:00.000Z')
+    )
+  })
+
+  test('dates with a time zone or without a time of day are unchanged', () => {
+    const field = SmartDateField({ timezone: 'Australia/Sydney' })
+    expect(field.options.cast('2023-01-01T09:00:00Z')).toStrictEqual(
+      new Date('2023-01-01T09:00:00.000Z')
+    )
+    expect(field.options.cast('2023-01-01')).toStrictEqual(
+      new Date('2023-01-01T00:00:00.000Z')
+    )
+  })
+
+  test('dates stored by day keep their day in timezone', () => {
+    const field = SmartDateField({
+      timezone: 'Australia/Sydney',
+      formatString: 'yyyy-MM-dd',
+      precision: 'day',
+    })
+    const parsed = field.options.cast('2023-01-01 09:00') as Date
+    expect(parsed).toStrictEqual(new Date('2023-01-01T00:00:00.000Z'))
+    expect((field.options.egressFormat as (val: Date) => string)(parsed)).toBe(
+      '2023-01-01'
+    )
+  })
+
+  test('unknown time zones throw', () => {
+    expect(() => SmartDateField({ timezone: 'Sydney' })).toThrow(
+      'Invalid timezone of Sydney'
+    )
+  })
+})
+
+describe('SmartDateTimezoneRecordCompute ->', () => {
+  const testSheet = new SheetTester(TimezoneBook, 'TimezoneSheet')
+
+  test('dates are read in the time zone of the record', async () => {
+    const record = {
+      Timezone: 'Australia/Sydney',
+      StartDate: '2023-01-01 09:00',
+    }
+    const res = await testSheet.testRecord(record)
+    expect(res['StartDate']).toBe('2022-12-31T22:00Z')
+    const messages = await testSheet.testMessage(record)
+    expect(
+      matchSingleMessage(
+        messages,
+        'StartDate',
+        "'2023-01-01 09:00' was read as Australia/Sydney time",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+
+  test('dates stored by day keep their day in the time zone', async () => {
+    const daySheet = new SheetTester(TimezoneBook, 'TimezoneDaySheet')
+    const res = await daySheet.testRecords([
+      { Timezone: 'Australia/Sydney', StartDay: '2023-01-01 09:00' },
+      // 02:00 on the 2nd in GMT
+      { Timezone: 'America/Toronto', StartDay: '2023-01-01 21:00' },
+      { Timezone: 'Australia/Sydney', StartDay: '2023-01-01' },
+    ])
+    expect(res.map((r) => r['StartDay'])).toEqual([
+      '2023-01-01',
+      '2023-01-01',
+      '2023-01-01',
+    ])
+  })
+
+  test('records without a known time zone stay in GMT', async () => {
+    const res = await testSheet.testRecords([
+      { Timezone: '', StartDate: '2023-01-01 09:00' },
+      { Timezone: 'Sydney', StartDate: '2023-01-01 09:00' },
+      { Timezone: 'Australia/Sydney', StartDate: '2023-01-01T09:00:00Z' },
+    ])
+    expect(res.map((r) => r['StartDate'])).toEqual([
+      '2023-01-01T09:00Z',
+      '2023-01-01T09:00Z',
+      '2023-01-01T09:00Z',
+    ])
+  })
+})
+
+describe('diagnoseDateField ->', () => {
+  const failing = (options: Parameters<typeof diagnoseDateField>[0]) =>
+    diagnoseDateField(options).filter(({ roundTripped }) => !roundTripped)
+
+  test('every probe round trips with the default formatString', () => {
+    const report = diagnoseDateField({})
+    expect(report.length).toBeGreaterThan(10)
+    expect(report.every(({ roundTripped }) => roundTripped)).toBe(true)
+    expect(report[0]).toStrictEqual({
+      probe: 'any date',
+      input: new Date('2009-02-24T00:00:00.000Z'),
+      formatted: '2009-02-24T00:00Z',
+      recast: new Date('2009-02-24T00:00:00.000Z'),
+      roundTripped: true,
+    })
+  })
+
+  test('times of day around DST transitions round trip', () => {
+    // jest.config.js runs the tests in America/New_York, GMT would hide
+    // dates shifted by the system timezone
+    expect(new Date('2021-01-01T00:00:00.000Z').getTimezoneOffset()).toBe(300)
+    const report = diagnoseDateField({})
+    expect(report).toContainEqual({
+      probe: 'DST end in America',
+      input: new Date('2021-11-07T05:30:00.000Z'),
+      formatted: '2021-11-07T05:30Z',
+      recast: new Date('2021-11-07T05:30:00.000Z'),
+      roundTripped: true,
+    })
+    // dates without a time of day only get the date probes
+    expect(
+      diagnoseDateField({ formatString: 'yyyy-MM-dd' }).map(
+        ({ input }) => input
+      )
+    ).not.toContainEqual(new Date('2021-11-07T05:30:00.000Z'))
+  })
+
+  test('probes are at the start of their period with precision', () => {
+    const report = diagnoseDateField({ precision: 'year' })
+    expect(report.every(({ roundTripped }) => roundTripped)).toBe(true)
+    expect(report.find(({ probe }) => probe === 'leap day')).toMatchObject({
+      input: new Date('2020-01-01T00:00:00.000Z'),
+      formatted: '2020',
+    })
+  })
+
+  test('month/day ambiguity between formatString and locale', () => {
+    expect(failing({ formatString: 'MM-dd-yy', locale: 'fr' })).toContainEqual({
+      probe: 'month/day ambiguity',
+      input: new Date('2009-02-05T00:00:00.000Z'),
+      formatted: '02-05-09',
+      recast: new Date('2009-05-02T00:00:00.000Z'),
+      roundTripped: false,
+    })
+    expect(failing({ formatString: 'MM-dd-yy' })).toHaveLength(0)
+  })
+
+  test('formats that cannot be written or read back', () => {
+    const [weekYear] = failing({ formatString: 'YYYY-MM-dd' })
+    expect(weekYear.formatted).toBeUndefined()
+    expect(weekYear.error).toContain('Use `yyyy` instead of `YYYY`')
+
+    const [noYear] = failing({ formatString: 'MM-dd' })
+    expect(noYear).toMatchObject({
+      formatted: '02-24',
+      error: "Error: '02-24' returned no parse results",
+    })
+  })
+
+  test('SmartDateField throws with the first failing probe', () => {
+    expect(() =>
+      SmartDateField({ locale: 'fr', formatString: 'MM-dd-yy' })
+    ).toThrow(
+      "Error: instantiating a SmartDateField with a formatString of MM-dd-yy, and locale of 'fr'.  will result in data loss or unexpected behavior, the month/day ambiguity probe 2009-02-05T00:00:00.000Z is formatted as '02-05-09', which reads back as 2009-05-02T00:00:00.000Z"
+    )
+    expect(() => SmartDateField({ formatString: 'MM-dd' })).toThrow(
+      "the any date probe 2009-02-24T00:00:00.000Z is formatted as '02-24', which throws Error: '02-24' returned no parse results"
+    )
+  })
+})
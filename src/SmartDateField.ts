@@ -1,78 +1,601 @@
 import * as chrono from 'chrono-node'
 import _ from 'lodash'
-import { utcToZonedTime, format } from 'date-fns-tz'
+import { FlatfileRecord, FlatfileRecords, TPrimitive } from '@flatfile/hooks'
+import {
+  utcToZonedTime,
+  zonedTimeToUtc,
+  getTimezoneOffset,
+  format,
+  formatInTimeZone,
+} from 'date-fns-tz'
 import parse from 'date-fns/parse'
 import {
   stdlib,
   Field,
   DateField,
+  TextField,
   Nullable,
-  verifyEgressCycle,
   makeField,
   mergeFieldOptions,
 } from '@flatfile/configure'
 const { StringChainCast, FallbackCast } = stdlib.cast
 
-type Locales = 'en' | 'fr' | 'nl' | 'ru' | 'de'
+type ChronoLocale = { strict: chrono.Chrono; casual: chrono.Chrono }
 
-const getChronoDateCast = (locale: Locales) => {
-  const ChronoStringDateCast = (raw: string | Date | null) => {
-    if (typeof raw === 'string') {
-      // use chrono.strict so that we dont get dates from strings like 'tomorrow', 'two weeks later'
-      const parsedResult = chrono[locale].strict.parse(raw, undefined)
+/**
+ * The locales chrono ships, every export of chrono-node with a strict and a
+ * casual parser.
+ */
+export type Locales = {
+  [K in keyof typeof chrono]: (typeof chrono)[K] extends ChronoLocale
+    ? K
+    : never
+}[keyof typeof chrono]
 
-      const firstResult = parsedResult[0]
-      if (firstResult === null || firstResult === undefined) {
-        throw new Error(`'${raw}' returned no parse results`)
-      }
-      const d = firstResult.date()
+// strict parsers, so that we dont get dates from strings like 'tomorrow', 'two weeks later'
+const LocaleParsers = _.mapValues(
+  _.pickBy(
+    chrono,
+    (exported) => _.has(exported, 'strict') && _.has(exported, 'casual')
+  ),
+  (exported) => (exported as ChronoLocale).strict
+) as Record<Locales, chrono.Chrono>
 
-      const resStart = firstResult.start
-      const tzCertain = resStart.isCertain('timezoneOffset')
-      const hourCertain = resStart.isCertain('hour')
-      const tzHours = d.getTimezoneOffset() / 60
+/**
+ * Parses raw with the strict parser of locale. Strict parsers still read
+ * relative dates like 'in 2 weeks', those results are dropped.
+ */
+const strictParse = (raw: string, locale: Locales): chrono.ParsedResult[] =>
+  LocaleParsers[locale]
+    .parse(raw, undefined)
+    .filter((result) => !result.tags().has('result/relativeDate'))
 
-      if (!resStart.isCertain('year')) {
-        throw new Error(
-          `couldn't parse ${raw} with a certain year.  Please use an unambiguous date format`
-        )
-      }
+export const SupportedLocales = _.keys(LocaleParsers) as Locales[]
 
-      if (!resStart.isCertain('month')) {
-        throw new Error(
-          `couldn't parse ${raw} with a certain month.  Please use an unambiguous date format`
-        )
-      }
+/**
+ * Checks timezone is a time zone name from the IANA Time Zone Database, e.g.
+ * 'Australia/Sydney'.
+ */
+export const isValidTimezone = (timezone: string): boolean =>
+  !isNaN(getTimezoneOffset(timezone))
 
-      if (!resStart.isCertain('day')) {
-        throw new Error(
-          `couldn't parse ${raw} with a certain day.  Please use an unambiguous date format`
-        )
+/**
+ * The order of day, month and year in numeric dates like 05/10/2022. With
+ * 'auto' the locale decides, see SmartDateOrderRecordsCompute to infer the
+ * order from the other dates of a column.
+ */
+export type DateOrder = 'MDY' | 'DMY' | 'YMD' | 'auto'
+
+/**
+ * How precise the dates of a field are. Dates are stored at the start or
+ * the end of their period, see fillPeriod.
+ */
+export type DatePrecision = 'year' | 'month' | 'day' | 'minute'
+
+export type PeriodFill = 'start' | 'end'
+
+export interface DateParseOptions {
+  // IANA time zone of dates with a time of day but no time zone, GMT when undefined
+  timezone?: string
+  dateOrder?: DateOrder
+  // the precision dates must have, coarser ones are errors and finer ones are
+  // stored at their period, undefined requires a certain day
+  precision?: DatePrecision
+  fill?: PeriodFill
+  // accept relative dates like 'next Monday', see parseRelativeDate
+  relative?: RelativeDateOptions
+}
+
+export interface RelativeDateOptions {
+  // the date relative dates are resolved against, the time of the import when undefined
+  anchor?: Date
+}
+
+// the parts of a date that are known, quarters are 3 months
+interface DateParts {
+  year: number
+  month?: number
+  months?: number
+  day?: number
+  hour?: number
+  minute?: number
+}
+
+const Precisions: DatePrecision[] = ['year', 'month', 'day', 'minute']
+
+// the default formatString of each precision
+const PrecisionFormatStrings: Record<DatePrecision, string> = {
+  year: 'yyyy',
+  month: 'yyyy-MM',
+  day: 'yyyy-MM-dd',
+  minute: "yyyy-MM-dd'T'HH:mm'Z'",
+}
+
+const datePartsOf = (date: Date): DateParts => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate(),
+  hour: date.getUTCHours(),
+  minute: date.getUTCMinutes(),
+})
+
+/**
+ * The date a period is stored as. The period is that of parts, or the one of
+ * precision containing parts when parts are more precise. With a fill of
+ * 'start' that is its first day (or minute, for a precision of 'minute'),
+ * with 'end' its last, so 2019 is 2019-01-01 or 2019-12-31 and Q2 2020 is
+ * 2020-04-01 or 2020-06-30.
+ *
+ * All dates are GMT.
+ */
+export const fillPeriod = (
+  parts: DateParts,
+  precision: DatePrecision,
+  fill: PeriodFill = 'start'
+): Date => {
+  const known =
+    parts.hour !== undefined
+      ? 'minute'
+      : parts.day !== undefined
+      ? 'day'
+      : parts.month !== undefined
+      ? 'month'
+      : 'year'
+  const period = Precisions[
+    Math.min(Precisions.indexOf(known), Precisions.indexOf(precision))
+  ] as DatePrecision
+  const level = Precisions.indexOf(period)
+
+  const start = [
+    parts.year,
+    level >= 1 ? (parts.month as number) - 1 : 0,
+    level >= 2 ? (parts.day as number) : 1,
+    level >= 3 ? (parts.hour as number) : 0,
+    level >= 3 ? parts.minute ?? 0 : 0,
+  ]
+  if (fill === 'start') {
+    return new Date(Date.UTC(start[0], start[1], start[2], start[3], start[4]))
+  }
+  const next = [...start]
+  next[level] += period === 'month' ? parts.months ?? 1 : 1
+  const unit = precision === 'minute' ? 60 * 1000 : 24 * 60 * 60 * 1000
+  return new Date(Date.UTC(next[0], next[1], next[2], next[3], next[4]) - unit)
+}
+
+/**
+ * Whether parts are at least as precise as precision, quarters are less
+ * precise than a month.
+ */
+const isAsPreciseAs = (parts: DateParts, precision: DatePrecision): boolean =>
+  precision === 'year' ||
+  (precision === 'month' &&
+    parts.month !== undefined &&
+    parts.months === undefined) ||
+  (precision === 'day' && parts.day !== undefined) ||
+  (precision === 'minute' && parts.hour !== undefined)
+
+const PartialDates: [RegExp, (match: RegExpMatchArray) => DateParts][] = [
+  [/^(\d{4})$/, ([, year]) => ({ year: Number(year) })],
+  [
+    /^(\d{1,2})[/.-](\d{4})$/,
+    ([, month, year]) => ({ year: Number(year), month: Number(month) }),
+  ],
+  [
+    /^(\d{4})[/.-](\d{1,2})$/,
+    ([, year, month]) => ({ year: Number(year), month: Number(month) }),
+  ],
+  [
+    /^Q([1-4])[\s/-]*(\d{4})$/i,
+    ([, quarter, year]) => ({
+      year: Number(year),
+      month: Number(quarter) * 3 - 2,
+      months: 3,
+    }),
+  ],
+  [
+    /^(\d{4})[\s/-]*Q([1-4])$/i,
+    ([, year, quarter]) => ({
+      year: Number(year),
+      month: Number(quarter) * 3 - 2,
+      months: 3,
+    }),
+  ],
+]
+
+/**
+ * Reads years (2019), months (03/2019, 2019-03, March 2019) and quarters
+ * (Q2 2020).
+ */
+const matchPartialDate = (
+  raw: string,
+  locale: Locales
+): DateParts | undefined => {
+  const trimmed = raw.trim()
+  for (const [pattern, toParts] of PartialDates) {
+    const match = trimmed.match(pattern)
+    if (match) {
+      const parts = toParts(match)
+      return parts.month === undefined ||
+        (parts.month >= 1 && parts.month <= 12)
+        ? parts
+        : undefined
+    }
+  }
+  // month names are left to chrono, by reading raw as the first of that month
+  if (/^\D+\s*\d{4}$/.test(trimmed)) {
+    const result = strictParse(`1 ${trimmed}`, locale)[0]
+    if (
+      result &&
+      result.text === `1 ${trimmed}` &&
+      result.start.isCertain('month') &&
+      result.start.isCertain('year')
+    ) {
+      return {
+        year: result.start.get('year') as number,
+        month: result.start.get('month') as number,
       }
+    }
+  }
+  return undefined
+}
 
-      // we want all dates to end up in the UTC timezone, and when we
-      // don't have an exact time, default to 00:00:00
-      if (hourCertain === false && tzCertain === false) {
-        //js dates are local TZ by default, we need to work around that
-        //in this case, set the hour to offset the timezone offset, that will bring the time 00:00:00 GMT
-        d.setHours(-1 * tzHours)
-      } else if (hourCertain === true && tzCertain === false) {
-        // if chrono was able to determine the hour, but not the timezone,
-        // back out the timezone offset from the hours stored on d
-        d.setHours(d.getHours() - tzHours)
-      } else if (hourCertain === false && tzCertain === true) {
-        //I don't know how this parsing result would be possible we should
-        //probably resort to 00:00:00 GMT, but to be extra strict, until
-        //we have more information, we'll throw an error
-        throw new Error(
-          `Don't know how to parse for hourCertain === false && tzCertain === true for ${raw}`
-        )
-      } else if (hourCertain === true && tzCertain === true) {
-        //we were able to absolutely determin the hour and timezone, nothing to do here
-        return d
+// 05/10/2022, 2022-05-10 or 5.10.2022 at the start of a string, maybe followed by a time
+const NumericDate = /^\s*(\d{1,4})([/.-])(\d{1,2})\2(\d{1,4})(?=\s|T|$)/
+
+/**
+ * Splits the numeric date at the start of raw into its parts, when it starts
+ * with a four digit year or ends with a two or four digit year.
+ */
+const matchNumericDate = (
+  raw: string
+): { parts: [string, string, string]; rest: string } | undefined => {
+  const match = raw.match(NumericDate)
+  if (
+    !match ||
+    (match[1].length !== 4 &&
+      (match[1].length > 2 || ![2, 4].includes(match[4].length)))
+  ) {
+    return undefined
+  }
+  return {
+    parts: [match[1], match[3], match[4]],
+    rest: raw.slice(match[0].length),
+  }
+}
+
+// two digit years are 1951 to 2050, as chrono reads them
+const expandYear = (year: string): number => {
+  const n = Number(year)
+  return year.length !== 2 ? n : n > 50 ? 1900 + n : 2000 + n
+}
+
+/**
+ * Separates the parts of a compact date like 'Feb072009', chrono only reads
+ * a month name followed by digits when they are separated.
+ */
+const splitCompactDate = (raw: string): string =>
+  raw.trim().replace(/^(\p{L}{3,})(\d{2})(\d{4})$/u, '$1 $2 $3')
+
+/**
+ * Rewrites the numeric date at the start of raw as yyyy-MM-dd, reading its
+ * parts in order. Dates starting with a four digit year are always read
+ * year, month, day. Two digit years are read as 1951 to 2050.
+ */
+const applyDateOrder = (
+  raw: string,
+  order: Exclude<DateOrder, 'auto'>
+): string => {
+  const numeric = matchNumericDate(raw)
+  if (numeric === undefined) {
+    return raw
+  }
+  const [first, second, third] = numeric.parts
+  // YMD dates start with a two or four digit year
+  if (
+    order === 'YMD' &&
+    first.length !== 4 &&
+    (first.length !== 2 || third.length !== 2)
+  ) {
+    throw new Error(`'${raw}' is not a valid ${order} date`)
+  }
+  const [year, month, day] =
+    first.length === 4 || order === 'YMD'
+      ? [first, second, third]
+      : order === 'MDY'
+      ? [third, first, second]
+      : [third, second, first]
+  const d = new Date(Date.UTC(expandYear(year), Number(month) - 1, Number(day)))
+  if (d.getUTCMonth() !== Number(month) - 1 || d.getUTCDate() !== Number(day)) {
+    throw new Error(`'${raw}' is not a valid ${order} date`)
+  }
+  return `${d.toISOString().slice(0, 10)}${numeric.rest}`
+}
+
+const chronoParseDate = (
+  raw: string,
+  locale: Locales,
+  { timezone, dateOrder = 'auto', precision, fill, relative }: DateParseOptions
+): Date => {
+  const partial = precision && matchPartialDate(raw, locale)
+  if (partial) {
+    if (!isAsPreciseAs(partial, precision)) {
+      throw new Error(`'${raw}' is less precise than a ${precision}`)
+    }
+    return fillPeriod(partial, precision, fill)
+  }
+
+  const ordered = dateOrder === 'auto' ? raw : applyDateOrder(raw, dateOrder)
+  const parsedResult = strictParse(splitCompactDate(ordered), locale)
+
+  const firstResult = parsedResult[0]
+  if (firstResult === null || firstResult === undefined) {
+    const relativeDate =
+      relative &&
+      parseRelativeDate(raw, locale, relative.anchor ?? new Date(), timezone)
+    if (relativeDate) {
+      return relativeDate
+    }
+    throw new Error(`'${raw}' returned no parse results`)
+  }
+  const d = firstResult.date()
+
+  const resStart = firstResult.start
+  const hourCertain = resStart.isCertain('hour')
+
+  if (!resStart.isCertain('year')) {
+    throw new Error(
+      `couldn't parse ${raw} with a certain year.  Please use an unambiguous date format`
+    )
+  }
+
+  if (!precision && !resStart.isCertain('month')) {
+    throw new Error(
+      `couldn't parse ${raw} with a certain month.  Please use an unambiguous date format`
+    )
+  }
+
+  if (!precision && !resStart.isCertain('day')) {
+    throw new Error(
+      `couldn't parse ${raw} with a certain day.  Please use an unambiguous date format`
+    )
+  }
+
+  const date = toGMT(d, resStart, raw, timezone)
+  if (!precision) {
+    return date
+  }
+  // the period is the one of the date in timezone, '2023-01-01 09:00' in
+  // Australia/Sydney is 2022-12-31 in GMT but still the 1st of January
+  const zoned =
+    timezone && precision !== 'minute'
+      ? utcToZonedTime(date, timezone)
+      : undefined
+  const parts: DateParts = zoned
+    ? {
+        year: zoned.getFullYear(),
+        month: resStart.isCertain('month') ? zoned.getMonth() + 1 : undefined,
+        day: resStart.isCertain('day') ? zoned.getDate() : undefined,
       }
+    : {
+        year: date.getUTCFullYear(),
+        month: resStart.isCertain('month') ? date.getUTCMonth() + 1 : undefined,
+        day: resStart.isCertain('day') ? date.getUTCDate() : undefined,
+        hour: hourCertain ? date.getUTCHours() : undefined,
+        minute: hourCertain ? date.getUTCMinutes() : undefined,
+      }
+  if (!isAsPreciseAs(parts, precision)) {
+    throw new Error(`'${raw}' is less precise than a ${precision}`)
+  }
+  return fillPeriod(parts, precision, fill)
+}
+
+/**
+ * Resolves a relative date like 'tomorrow', 'next Monday' or 'in 2 weeks'
+ * against anchor. Only the calendar date of anchor in GMT matters, the
+ * result is 00:00:00 GMT unless raw has a time of day.
+ *
+ * @param {string} raw - the relative date, chrono must read all of it
+ * @param {Locales} locale - the language of raw
+ * @param {Date} anchor - the date raw is relative to
+ * @param {string} timezone - IANA time zone of a time of day in raw, GMT when undefined
+ * @return {Date | undefined} the resolved date, undefined when raw isn't a relative date
+ */
+export const parseRelativeDate = (
+  raw: string,
+  locale: Locales,
+  anchor: Date,
+  timezone?: string
+): Date | undefined => {
+  const trimmed = raw.trim()
+  // chrono resolves in local time, give it the GMT calendar date of anchor
+  const reference = new Date(
+    anchor.getUTCFullYear(),
+    anchor.getUTCMonth(),
+    anchor.getUTCDate()
+  )
+  const result = chrono[locale].casual.parse(trimmed, reference)[0]
+  if (result === undefined || result.text !== trimmed) {
+    return undefined
+  }
+  return toGMT(result.date(), result.start, raw, timezone)
+}
+
+const toGMT = (
+  d: Date,
+  resStart: chrono.ParsedComponents,
+  raw: string,
+  timezone?: string
+): Date => {
+  const tzCertain = resStart.isCertain('timezoneOffset')
+  const hourCertain = resStart.isCertain('hour')
+
+  // we want all dates to end up in the UTC timezone, and when we
+  // don't have an exact time, default to 00:00:00. The GMT date is built
+  // from the components chrono read, shifting d by the offset of the local
+  // timezone breaks on the days that offset changes
+  const gmt = (withTime: boolean) =>
+    new Date(
+      Date.UTC(
+        resStart.get('year') as number,
+        (resStart.get('month') as number) - 1,
+        resStart.get('day') as number,
+        withTime ? (resStart.get('hour') as number) : 0,
+        withTime ? (resStart.get('minute') as number) : 0,
+        withTime ? (resStart.get('second') as number) : 0,
+        withTime ? (resStart.get('millisecond') as number) : 0
+      )
+    )
+
+  if (hourCertain === false && tzCertain === false) {
+    return gmt(false)
+  } else if (hourCertain === true && tzCertain === false) {
+    // chrono was able to determine the hour, but not the timezone
+    const date = gmt(true)
+    if (timezone) {
+      // date holds the time of day as GMT, read it in timezone instead
+      return zonedTimeToUtc(date.toISOString().slice(0, 23), timezone)
+    }
+    return date
+  } else if (hourCertain === false && tzCertain === true) {
+    //I don't know how this parsing result would be possible we should
+    //probably resort to 00:00:00 GMT, but to be extra strict, until
+    //we have more information, we'll throw an error
+    throw new Error(
+      `Don't know how to parse for hourCertain === false && tzCertain === true for ${raw}`
+    )
+  }
+  //we were able to absolutely determin the hour and timezone, nothing to do here
+  return d
+}
+
+/**
+ * Parses raw with each of locales in turn, the first one that gives a
+ * certain date wins. When none does, the error of the first locale is thrown.
+ *
+ * @param {string} raw - the date to parse
+ * @param {Array<Locales>} locales - locales to try, in order
+ * @param {DateParseOptions} options - time zone and date order
+ * @return {{ date: Date; locale: Locales }} the date and the locale that parsed it
+ */
+export const parseLocalizedDate = (
+  raw: string,
+  locales: Locales[],
+  options: DateParseOptions = {}
+): { date: Date; locale: Locales } => {
+  let firstError: unknown
+  for (const locale of locales) {
+    try {
+      return { date: chronoParseDate(raw, locale, options), locale }
+    } catch (e: unknown) {
+      firstError = firstError ?? e
+    }
+  }
+  throw firstError
+}
+
+export type NumericDateFormat =
+  | 'excel1900'
+  | 'excel1904'
+  | 'epochSeconds'
+  | 'epochMilliseconds'
+
+export interface NumericDateOptions {
+  // tried in order, the first giving a date within [min, max] wins
+  formats: NumericDateFormat[]
+  // defaults to 1950-01-01
+  min?: Date
+  // defaults to the start of the year five years from now
+  max?: Date
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60
 
-      return d
+// days since an epoch, fractions of a day are the time of day
+const serialToDate = (epoch: number, serial: number): Date =>
+  new Date(epoch + Math.round(serial * SECONDS_PER_DAY) * 1000)
+
+const NumericDateFormats: Record<
+  NumericDateFormat,
+  { name: string; pattern: RegExp; toDate: (n: number) => Date | undefined }
+> = {
+  excel1900: {
+    name: 'an Excel serial date',
+    pattern: /^\d{1,5}(\.\d+)?$/,
+    // Excel counts 1900-02-29 (serial 60), which never existed
+    toDate: (n) =>
+      n < 60
+        ? serialToDate(Date.UTC(1899, 11, 31), n)
+        : n >= 61
+        ? serialToDate(Date.UTC(1899, 11, 30), n)
+        : undefined,
+  },
+  excel1904: {
+    name: 'an Excel 1904 serial date',
+    pattern: /^\d{1,5}(\.\d+)?$/,
+    toDate: (n) => serialToDate(Date.UTC(1904, 0, 1), n),
+  },
+  epochSeconds: {
+    name: 'a Unix timestamp in seconds',
+    pattern: /^\d{9,10}$/,
+    toDate: (n) => new Date(n * 1000),
+  },
+  epochMilliseconds: {
+    name: 'a Unix timestamp in milliseconds',
+    pattern: /^\d{12,13}$/,
+    toDate: (n) => new Date(n),
+  },
+}
+
+export const SupportedNumericDateFormats = _.keys(
+  NumericDateFormats
+) as NumericDateFormat[]
+
+/**
+ * Reads a number as a date in the first of formats it fits. Each format
+ * only accepts numbers of its own length, e.g. Unix timestamps in seconds
+ * have 9 or 10 digits, and the date must be within [min, max], so that
+ * ordinary numbers aren't taken for dates. With the default bounds Excel
+ * serials from 18264 (1950) to those of five years from now are still
+ * dates, set min and max to the dates the column holds for a tighter check.
+ *
+ * @param {string} raw - the number, excel serials may have a fraction for the time of day
+ * @param {NumericDateOptions} options - formats to try, in order, and the date bounds
+ * @return {{ date: Date; format: NumericDateFormat } | undefined} the date in GMT, undefined when raw isn't a date in any of formats
+ */
+export const parseNumericDate = (
+  raw: string,
+  {
+    formats,
+    min = new Date('1950-01-01T00:00:00.000Z'),
+    max = new Date(Date.UTC(new Date().getUTCFullYear() + 5, 0, 1)),
+  }: NumericDateOptions
+): { date: Date; format: NumericDateFormat } | undefined => {
+  const trimmed = raw.trim()
+  for (const format of formats) {
+    const { pattern, toDate } = NumericDateFormats[format]
+    const date = pattern.test(trimmed) ? toDate(Number(trimmed)) : undefined
+    if (date && date >= min && date <= max) {
+      return { date, format }
+    }
+  }
+  return undefined
+}
+
+const getChronoDateCast = (
+  locale: Locales | Locales[],
+  options: DateParseOptions = {},
+  numericDates?: NumericDateOptions
+) => {
+  const locales = _.castArray(locale)
+  const ChronoStringDateCast = (raw: string | number | Date | null) => {
+    const numeric =
+      numericDates &&
+      (typeof raw === 'string' || typeof raw === 'number') &&
+      parseNumericDate(String(raw), numericDates)
+    if (numeric) {
+      return numeric.date
+    } else if (typeof raw === 'string') {
+      return parseLocalizedDate(raw, locales, options).date
     } else if (_.isDate(raw)) {
       return raw
     } else {
@@ -89,73 +612,131 @@ const getChronoDateCast = (locale: Locales) => {
  * This means that the same format string will be regardless of the
  * system timezone.
  */
-
-export const GMTFormatDate = (val: Date, formatString: string): string => {
-  const prevailingTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
-  const d = new Date()
-  const tzHours = d.getTimezoneOffset() / 60
-  const val2 = new Date(val)
-  val2.setHours(val2.getHours() + tzHours)
-  const utcDate = utcToZonedTime(val2, prevailingTimezone)
-  return format(utcDate, formatString)
-}
+export const GMTFormatDate = (val: Date, formatString: string): string =>
+  formatInTimeZone(val, 'UTC', formatString)
 
 export const ChronoDateCast = StringChainCast(getChronoDateCast('en'))
 
-const egressDebug = (field: Field<any>, castVal: any) => {
-  //cast / egressFormat cycle must converge to the same value,
-  //otherwise throw an error because the user will lose dta
-  const ef = field.options.egressFormat
-  if (ef === false) {
-    console.log('egressDebug called on a field without egressFormat set')
-    return
-  }
+/**
+ * Stores date as the value of field in a recordCompute. FlatfileRecord only
+ * types primitive values, but the values of date fields stay Dates until
+ * egressFormat writes them out with formatString after the computes ran, so
+ * a date stored as a string would skip the field's formatString.
+ */
+const setDate = (record: FlatfileRecord, field: string, date: Date): void => {
+  record.set(field, date as unknown as TPrimitive)
+}
 
-  const egressResult = ef(castVal)
-  try {
-    const recast = field.options.cast(egressResult)
-    console.log(
-      `castVal ${castVal} becomes ${egressResult} after egressFormat, which when cast gives ${recast}`
+/**
+ * Throws on options that SmartDateField and SmartDateRangeField can't parse
+ * dates with.
+ */
+const checkDateParseOptions = ({
+  locale,
+  timezone,
+  dateOrder,
+  precision,
+  fill,
+}: DateParseOptions & { locale: Locales | Locales[] }): void => {
+  const unsupported = _.difference(_.castArray(locale), SupportedLocales)
+  if (_.isEmpty(locale) || unsupported.length > 0) {
+    throw new Error(
+      `Invalid locale of ${locale}, expected one of ${SupportedLocales} or a list of them`
     )
-  } catch (e: any) {
-    console.log(
-      `castVal ${castVal} becomes ${egressResult} after egressFormat, casting again throws an error of ${e}`
+  }
+  if (
+    dateOrder !== undefined &&
+    !['MDY', 'DMY', 'YMD', 'auto'].includes(dateOrder)
+  ) {
+    throw new Error(
+      `Invalid dateOrder of ${dateOrder}, expected one of MDY, DMY, YMD or auto`
+    )
+  }
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    throw new Error(
+      `Invalid timezone of ${timezone}, expected a time zone name from the IANA Time Zone Database such as America/Toronto`
     )
   }
+  if (precision !== undefined && !Precisions.includes(precision)) {
+    throw new Error(
+      `Invalid precision of ${precision}, expected one of ${Precisions}`
+    )
+  }
+  if (fill !== undefined && !['start', 'end'].includes(fill)) {
+    throw new Error(`Invalid fill of ${fill}, expected start or end`)
+  }
 }
 
-export const SmartDateField = makeField<
-  Date,
-  { formatString?: string; extraParseString?: string; locale?: Locales }
->(DateField({}), {}, (mergedOpts, passedOptions) => {
+export interface SmartDateFieldOptions {
+  formatString?: string
+  extraParseString?: string
+  locale?: Locales | Locales[]
+  timezone?: string
+  dateOrder?: DateOrder
+  numericDates?: NumericDateOptions
+  precision?: DatePrecision
+  fill?: PeriodFill
+  relative?: RelativeDateOptions
+}
+
+/**
+ * Builds the cast and egressFormat of a SmartDateField, throwing on options
+ * it can't be built with.
+ */
+const smartDateCasts = (options: SmartDateFieldOptions) => {
   const defaultedPassedOptions = {
     ...{
-      formatString: "yyyy-MM-dd'T'HH:mm'Z'",
+      formatString: PrecisionFormatStrings[options.precision ?? 'minute'],
       extraParseString: undefined,
-      locale: 'en',
+      locale: 'en' as Locales | Locales[],
+      timezone: undefined,
+      dateOrder: 'auto' as DateOrder,
+      numericDates: undefined,
+      precision: undefined,
+      fill: 'start' as PeriodFill,
+      relative: undefined,
     },
-    ...passedOptions,
+    ...options,
   }
 
-  const { formatString, extraParseString, locale } = defaultedPassedOptions
+  const {
+    formatString,
+    extraParseString,
+    locale,
+    timezone,
+    dateOrder,
+    numericDates,
+    precision,
+    fill,
+    relative,
+  } = defaultedPassedOptions
 
-  if (_.keys(passedOptions).includes('cast')) {
+  checkDateParseOptions({ locale, timezone, dateOrder, precision, fill })
+  if (numericDates !== undefined && precision === 'year') {
     throw new Error(
-      `Cannot instantiate this field with an overridden cast function`
+      `Invalid numericDates with a precision of year, years like 2019 can't be told from numeric dates`
     )
   }
-  if (_.keys(passedOptions).includes('egressFormat')) {
+  if (
+    numericDates !== undefined &&
+    (_.isEmpty(numericDates.formats) ||
+      _.difference(numericDates.formats, SupportedNumericDateFormats).length >
+        0)
+  ) {
     throw new Error(
-      `Cannot instantiate this field with an overridden egressFormat function`
+      `Invalid numericDates formats of ${numericDates.formats}, expected a list of ${SupportedNumericDateFormats}`
     )
   }
 
-  //@ts-ignore
-  const localeCast = getChronoDateCast(locale)
+  const localeCast = getChronoDateCast(
+    locale,
+    { timezone, dateOrder, precision, fill, relative },
+    numericDates
+  )
 
-  let cast
+  let parsingCast: (val: any) => Nullable<Date>
   if (extraParseString) {
-    cast = FallbackCast(
+    parsingCast = FallbackCast(
       localeCast,
       StringChainCast((val: string | Date): Nullable<Date> => {
         if (typeof val === 'string') {
@@ -171,7 +752,15 @@ export const SmartDateField = makeField<
       })
     )
   } else {
-    cast = localeCast
+    parsingCast = localeCast
+  }
+
+  // numbers and extraParseString give full dates, store those at their period too
+  const cast = (val: any) => {
+    const parsed = parsingCast(val)
+    return precision && _.isDate(parsed)
+      ? fillPeriod(datePartsOf(parsed), precision, fill)
+      : parsed
   }
 
   const egressFormat = (val: Date | string): string => {
@@ -190,31 +779,743 @@ export const SmartDateField = makeField<
       return NaN
     }
   }
-  const newOpts = {
-    cast,
-    egressFormat,
+  return { cast, egressFormat, formatString, locale }
+}
+
+// dates a SmartDateField must write out with formatString and read back unchanged
+const DateProbes: [string, string][] = [
+  ['any date', '2009-02-24'],
+  ['month/day ambiguity', '2009-02-05'],
+  ['month/day ambiguity', '2009-12-11'],
+  ['leap day', '2020-02-29'],
+  ['leap day', '2000-02-29'],
+  ['DST start in America', '2021-03-14'],
+  ['DST end in America', '2021-11-07'],
+  ['DST start in Europe', '2021-03-28'],
+  ['DST end in Europe', '2021-10-31'],
+  ['year boundary', '2020-12-31'],
+  ['year boundary', '2021-01-01'],
+  // two digit years are read as 1951 to 2050
+  ['two digit year', '1999-12-31'],
+  ['two digit year', '2000-01-01'],
+]
+
+// times a SmartDateField must write out and read back unchanged when its
+// formatString has a time of day, around the hours skipped or repeated by
+// daylight saving time in the system timezone
+const TimeOfDayProbes: [string, string][] = [
+  // 02:30 doesn't exist in New York that day
+  ['DST start in America', '2021-03-14T07:30:00.000Z'],
+  // 01:30 happens twice in New York that day
+  ['DST end in America', '2021-11-07T05:30:00.000Z'],
+  ['DST end in America', '2021-11-07T06:30:00.000Z'],
+  // 02:30 doesn't exist in Paris that day
+  ['DST start in Europe', '2021-03-28T01:30:00.000Z'],
+  // 02:30 happens twice in Paris that day
+  ['DST end in Europe', '2021-10-31T00:30:00.000Z'],
+  ['DST end in Europe', '2021-10-31T01:30:00.000Z'],
+]
+
+export interface DateProbeResult {
+  // what the probe looks for, e.g. 'leap day'
+  probe: string
+  // the probe date, at the start or end of its period with precision
+  input: Date
+  // input written with formatString
+  formatted?: string
+  // formatted read back by the field
+  recast?: Nullable<Date>
+  // why input couldn't be formatted or read back
+  error?: string
+  roundTripped: boolean
+}
+
+const writesTimeOfDay = (formatString: string): boolean => {
+  try {
+    return (
+      GMTFormatDate(new Date('2009-02-24T00:00:00.000Z'), formatString) !==
+      GMTFormatDate(new Date('2009-02-24T13:37:00.000Z'), formatString)
+    )
+  } catch (e: unknown) {
+    // the date probes report formatStrings that can't be formatted
+    return false
   }
-  const f = new Field(mergeFieldOptions(mergedOpts, newOpts))
-  const testEgressCycle = (d: Date) => {
+}
+
+const probeDateCasts = (
+  cast: (val: any) => Nullable<Date>,
+  formatString: string
+): DateProbeResult[] =>
+  [
+    ...DateProbes.map(([probe, date]) => [probe, `${date}T00:00:00.000Z`]),
+    ...(writesTimeOfDay(formatString) ? TimeOfDayProbes : []),
+  ].map(([probe, date]): DateProbeResult => {
+    const input = cast(new Date(date)) as Date
+    let formatted: string
     try {
-      //@ts-ignore
-      if (!verifyEgressCycle(f, d)) {
-        egressDebug(f, d)
-        throw new Error(
-          `Error: instantiating a SmartDateField with a formatString of ${formatString}, and locale of '${locale}'.  will result in data loss or unexpected behavior`
-        )
+      formatted = GMTFormatDate(input, formatString)
+    } catch (e: unknown) {
+      return { probe, input, error: String(e), roundTripped: false }
+    }
+    try {
+      const recast = cast(formatted)
+      return {
+        probe,
+        input,
+        formatted,
+        recast,
+        roundTripped: _.isDate(recast) && recast.getTime() === input.getTime(),
       }
-    } catch (e: any) {
-      egressDebug(f, d)
+    } catch (e: unknown) {
+      return { probe, input, formatted, error: String(e), roundTripped: false }
+    }
+  })
+
+/**
+ * Writes each probe date out with formatString and reads it back with the
+ * options of a SmartDateField, reporting the dates that don't come back
+ * unchanged. Use it to find out why a SmartDateField can't be instantiated
+ * with a formatString.
+ *
+ * @example
+ * diagnoseDateField({ formatString: 'MM-dd-yy', locale: 'fr' })
+ *   .filter((result) => !result.roundTripped)
+ * // [{ probe: 'month/day ambiguity', input: 2009-02-05T00:00:00.000Z,
+ * //    formatted: '02-05-09', recast: 2009-05-02T00:00:00.000Z, roundTripped: false }, ...]
+ *
+ * @param {SmartDateFieldOptions} options - the options of the SmartDateField
+ * @return {Array<DateProbeResult>} the result of each probe
+ */
+export const diagnoseDateField = (
+  options: SmartDateFieldOptions = {}
+): DateProbeResult[] => {
+  const { cast, formatString } = smartDateCasts(options)
+  return probeDateCasts(cast, formatString)
+}
+
+const describeProbe = ({
+  probe,
+  input,
+  formatted,
+  recast,
+  error,
+}: DateProbeResult): string => {
+  const date = input.toISOString()
+  if (formatted === undefined) {
+    return `the ${probe} probe ${date} can't be formatted, ${error}`
+  }
+  const readBack =
+    error !== undefined
+      ? `throws ${error}`
+      : `reads back as ${_.isDate(recast) ? recast.toISOString() : recast}`
+  return `the ${probe} probe ${date} is formatted as '${formatted}', which ${readBack}`
+}
+
+/**
+ * SmartDateField parses dates in many formats with chrono and writes them
+ * out with formatString, in GMT.
+ *
+ * Dates with a time of day but no time zone are read as GMT, or as
+ * `timezone` when it is set. Use SmartDateTimezoneRecordCompute when the
+ * time zone comes from another field of the record.
+ *
+ * Numeric dates like 05/10/2022 are read in `dateOrder`. With 'auto', the
+ * default, the locale decides, pair the field with
+ * SmartDateOrderRecordsCompute to infer the order from the whole column.
+ *
+ * With `numericDates`, numbers like Excel serial dates (44927) and Unix
+ * timestamps are read as dates in GMT. Pair the field with
+ * SmartDateNumericRecordCompute to show how they were read.
+ *
+ * With `precision`, dates as coarse as the precision are accepted, e.g.
+ * '2019' and 'Q2 2019' with a precision of 'year', and coarser ones are
+ * errors, '2019' with a precision of 'month'. Every date is stored at the
+ * start or end (`fill`) of its period, see fillPeriod. formatString defaults
+ * to one showing just that precision.
+ *
+ * With `relative`, dates like 'next Monday' are resolved against an anchor,
+ * the time of the import by default. Pair the field with
+ * SmartDateRelativeRecordCompute to warn about them, or to resolve them
+ * against another date of the record.
+ */
+export const SmartDateField = makeField<Date, SmartDateFieldOptions>(
+  DateField({}),
+  {},
+  (mergedOpts, passedOptions) => {
+    if (_.keys(passedOptions).includes('cast')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden cast function`
+      )
+    }
+    if (_.keys(passedOptions).includes('egressFormat')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden egressFormat function`
+      )
+    }
+
+    const { cast, egressFormat, formatString, locale } =
+      smartDateCasts(passedOptions)
+
+    const failed = probeDateCasts(cast, formatString).find(
+      ({ roundTripped }) => !roundTripped
+    )
+    if (failed) {
       throw new Error(
-        `Error: instantiating a SmartDateField with a formatString of ${formatString}, and locale of '${locale}'.  will result in data loss or unexpected behavior`
+        `Error: instantiating a SmartDateField with a formatString of ${formatString}, and locale of '${locale}'.  will result in data loss or unexpected behavior, ${describeProbe(
+          failed
+        )}`
       )
     }
+
+    return new Field(mergeFieldOptions(mergedOpts, { cast, egressFormat }))
   }
-  //pretty much any date, nothing notable.  ChronoDateCast is fine here,  we just want a date
-  testEgressCycle(ChronoDateCast('2009-02-24T00:00:00.000Z') as Date)
-  //this will pick up month/date ambiguity... and its interaction between locale and formatString
-  testEgressCycle(ChronoDateCast('2009-02-05T00:00:00.000Z') as Date)
+)
+
+export interface SmartDateTimezoneRecordComputeOptions {
+  // field holding an IANA time zone name, e.g. Australia/Sydney
+  timezoneField: string
+  // SmartDateFields to read in that time zone
+  dateFields: string[]
+  // as set on the SmartDateFields
+  locale?: Locales | Locales[]
+  dateOrder?: DateOrder
+  precision?: DatePrecision
+  fill?: PeriodFill
+}
+
+/**
+ * Builds a recordCompute that reads the dates of dateFields in the time zone
+ * given by timezoneField of the same record. Only dates with a time of day
+ * and no time zone of their own change, an info message shows the original
+ * value. Records with an empty or unknown time zone are left as cast.
+ *
+ * Fields that store only a date, like a formatString of 'yyyy-MM-dd', need a
+ * precision of 'day' on the field and here, otherwise a time early in the
+ * day is written out as the day before in GMT.
+ *
+ * @example
+ * const timezoneCompute = SmartDateTimezoneRecordCompute({
+ *   timezoneField: 'Timezone',
+ *   dateFields: ['EmploymentDate', 'TerminationDate'],
+ * })
+ */
+export const SmartDateTimezoneRecordCompute = ({
+  timezoneField,
+  dateFields,
+  locale = 'en',
+  ...options
+}: SmartDateTimezoneRecordComputeOptions) => {
+  return (record: FlatfileRecord): void => {
+    const timezone = record.get(timezoneField)
+    if (!_.isString(timezone) || !isValidTimezone(timezone)) {
+      return
+    }
+    const zonedCast = getChronoDateCast(locale, { ...options, timezone })
+
+    dateFields.forEach((field) => {
+      const [value, raw] = [record.get(field), record.originalValue[field]]
+      if (!_.isDate(value) || !_.isString(raw)) {
+        return
+      }
+      let zoned: Date
+      try {
+        zoned = zonedCast(raw)
+      } catch (e: any) {
+        // parsed by the extraParseString fallback, those never have a time
+        return
+      }
+      if (zoned.getTime() !== value.getTime()) {
+        setDate(record, field, zoned)
+        record.addInfo(field, `'${raw}' was read as ${timezone} time`)
+      }
+    })
+  }
+}
+
+/**
+ * Builds a recordCompute that adds an info message naming the locale that
+ * parsed each date, for SmartDateFields with a list of locales.
+ *
+ * @example
+ * const localeCompute = SmartDateLocaleRecordCompute({
+ *   HireDate: ['fr', 'en'],
+ * })
+ */
+export const SmartDateLocaleRecordCompute = (
+  dateFields: Record<string, Locales[]>
+) => {
+  return (record: FlatfileRecord): void => {
+    _.toPairs(dateFields).forEach(([field, locales]) => {
+      const [value, raw] = [record.get(field), record.originalValue[field]]
+      if (!_.isDate(value) || !_.isString(raw)) {
+        return
+      }
+      try {
+        const { locale } = parseLocalizedDate(raw, locales)
+        record.addInfo(field, `'${raw}' was read with the ${locale} locale`)
+      } catch (e: any) {
+        // parsed by the extraParseString fallback
+        return
+      }
+    })
+  }
+}
+
+export interface SmartDateOrderRecordsComputeOptions {
+  // SmartDateFields with a dateOrder of 'auto'
+  dateFields: string[]
+  // field holding the IANA time zone of each record, see SmartDateTimezoneRecordCompute
+  timezoneField?: string
+  // as set on the SmartDateFields
+  locale?: Locales | Locales[]
+  precision?: DatePrecision
+  fill?: PeriodFill
+}
+
+/**
+ * Builds a batchRecordsCompute that infers whether the numeric dates of a
+ * column are written day or month first. A date like 18/02/2009 can only be
+ * day first, when the column has such dates and none that can only be month
+ * first, its ambiguous dates (05/10/2022) are read day first too, and the
+ * other way around. An info message shows how each ambiguous date was read.
+ *
+ * When no date settles it, or the column has both kinds, the ambiguous
+ * dates are left as the locale read them with a warning.
+ *
+ * @example
+ * const dateOrderCompute = SmartDateOrderRecordsCompute({
+ *   dateFields: ['EmploymentDate'],
+ * })
+ */
+export const SmartDateOrderRecordsCompute = ({
+  dateFields,
+  locale = 'en',
+  timezoneField,
+  ...options
+}: SmartDateOrderRecordsComputeOptions) => {
+  const locales = _.castArray(locale)
+
+  return async (records: FlatfileRecords<any>): Promise<void> => {
+    dateFields.forEach((field) => {
+      const numericDates = _.compact(
+        records.records.map((record: FlatfileRecord) => {
+          const [value, raw] = [record.get(field), record.originalValue[field]]
+          if (!_.isDate(value) || !_.isString(raw)) {
+            return undefined
+          }
+          const numeric = matchNumericDate(raw)
+          // dates starting with a four digit year are always year, month, day
+          if (numeric === undefined || numeric.parts[0].length === 4) {
+            return undefined
+          }
+          const [first, second] = numeric.parts.map(Number)
+          return { record, raw, first, second }
+        })
+      )
+
+      const dayFirst = numericDates.some(({ first }) => first > 12)
+      const monthFirst = numericDates.some(({ second }) => second > 12)
+      const inferred =
+        dayFirst !== monthFirst ? (dayFirst ? 'DMY' : 'MDY') : undefined
+
+      numericDates
+        .filter(({ first, second }) => first <= 12 && second <= 12)
+        .filter(({ first, second }) => first !== second)
+        .forEach(({ record, raw }) => {
+          const timezone = timezoneField && record.get(timezoneField)
+          let date: Date | undefined
+          try {
+            date =
+              inferred &&
+              parseLocalizedDate(raw, locales, {
+                ...options,
+                dateOrder: inferred,
+                timezone:
+                  _.isString(timezone) && isValidTimezone(timezone)
+                    ? timezone
+                    : undefined,
+              }).date
+          } catch (e: any) {
+            date = undefined
+          }
+          if (date === undefined) {
+            record.addWarning(
+              field,
+              `'${raw}' could be MDY or DMY, no other date of ${field} tells which one is used`
+            )
+            return
+          }
+          setDate(record, field, date)
+          record.addInfo(
+            field,
+            `'${raw}' was read as ${inferred}, like the other dates of ${field}`
+          )
+        })
+    })
+  }
+}
+
+/**
+ * Builds a recordCompute that adds an info message to each date that was
+ * read from a number, for SmartDateFields with numericDates.
+ *
+ * @example
+ * const numericCompute = SmartDateNumericRecordCompute({
+ *   dateFields: ['HireDate'],
+ *   numericDates: { formats: ['excel1900'] },
+ * })
+ */
+export const SmartDateNumericRecordCompute = ({
+  dateFields,
+  numericDates,
+}: {
+  dateFields: string[]
+  numericDates: NumericDateOptions
+}) => {
+  return (record: FlatfileRecord): void => {
+    dateFields.forEach((field) => {
+      const [value, raw] = [record.get(field), record.originalValue[field]]
+      if (!_.isDate(value) || !(_.isString(raw) || _.isNumber(raw))) {
+        return
+      }
+      const numeric = parseNumericDate(String(raw), numericDates)
+      if (numeric) {
+        record.addInfo(
+          field,
+          `'${raw}' was read as ${
+            NumericDateFormats[numeric.format].name
+          }, ${numeric.date.toISOString()}`
+        )
+      }
+    })
+  }
+}
+
+export interface SmartDateRelativeRecordComputeOptions {
+  // SmartDateFields with relative set
+  dateFields: string[]
+  // date field of the same record relative dates are resolved against
+  anchorField?: string
+  // as set on the SmartDateFields
+  locale?: Locales | Locales[]
+  timezone?: string
+  precision?: DatePrecision
+  fill?: PeriodFill
+}
+
+/**
+ * Builds a recordCompute that adds a warning to each relative date, like
+ * 'next Monday', showing the date it was resolved to so that it can be
+ * checked. With anchorField, relative dates are resolved against the date of
+ * that field instead, when it has one.
+ *
+ * @example
+ * const relativeCompute = SmartDateRelativeRecordCompute({
+ *   dateFields: ['StartDate'],
+ *   anchorField: 'OfferDate',
+ * })
+ */
+export const SmartDateRelativeRecordCompute = ({
+  dateFields,
+  anchorField,
+  locale = 'en',
+  timezone,
+  precision,
+  fill,
+}: SmartDateRelativeRecordComputeOptions) => {
+  const locales = _.castArray(locale)
+
+  return (record: FlatfileRecord): void => {
+    const anchorValue = anchorField && record.get(anchorField)
+    const anchor = _.isDate(anchorValue) ? anchorValue : undefined
 
-  return f
+    dateFields.forEach((field) => {
+      const [value, raw] = [record.get(field), record.originalValue[field]]
+      if (!_.isDate(value) || !_.isString(raw)) {
+        return
+      }
+      try {
+        parseLocalizedDate(raw, locales, { timezone })
+        // an absolute date
+        return
+      } catch (e: any) {
+        // maybe a relative one
+      }
+
+      const relativeDate = _.first(
+        _.compact(
+          locales.map((l) =>
+            parseRelativeDate(raw, l, anchor ?? new Date(), timezone)
+          )
+        )
+      )
+      if (relativeDate === undefined) {
+        return
+      }
+      let resolved: Date = value
+      if (anchor) {
+        resolved = precision
+          ? fillPeriod(datePartsOf(relativeDate), precision, fill)
+          : relativeDate
+        setDate(record, field, resolved)
+      }
+      record.addWarning(
+        field,
+        `'${raw}' is a relative date, it was read as ${resolved.toISOString()}${
+          anchor ? ` from ${anchorField}` : ''
+        }`
+      )
+    })
+  }
+}
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+export type DateRangeParseOptions = Omit<DateParseOptions, 'fill' | 'relative'>
+
+// ISO 8601 intervals, 2023-01-05/2023-02-10
+const IsoInterval =
+  /^\s*(\d{4}-\d{2}-\d{2}[^/\s]*)\/(\d{4}-\d{2}-\d{2}[^/\s]*)\s*$/
+// dashes without spaces would split dates like 2023-01-05
+const RangeSeparator = /\s+(?:-|to|until|through)\s+|\s*[–—]\s*/i
+
+/**
+ * Parses each side of a range written with a separator, with the same rules
+ * as SmartDateField.
+ */
+const parseRangeHalves = (
+  raw: string,
+  locales: Locales[],
+  options: DateRangeParseOptions
+): DateRange | undefined => {
+  const iso = raw.match(IsoInterval)
+  const halves = iso ? [iso[1], iso[2]] : raw.split(RangeSeparator)
+  if (halves.length !== 2) {
+    return undefined
+  }
+  try {
+    return {
+      start: parseLocalizedDate(halves[0], locales, {
+        ...options,
+        fill: 'start',
+      }).date,
+      end: parseLocalizedDate(halves[1], locales, { ...options, fill: 'end' })
+        .date,
+    }
+  } catch (e: unknown) {
+    return undefined
+  }
+}
+
+/**
+ * Parses a range chrono reads as a whole, like 'Jan 5 to Feb 10, 2023' or
+ * 'Jan 5 - 10, 2023', where one side gets its year or month from the other.
+ */
+const chronoParseRange = (
+  raw: string,
+  locale: Locales,
+  { timezone, precision }: DateRangeParseOptions
+): DateRange | undefined => {
+  const trimmed = raw.trim()
+  const result = strictParse(trimmed, locale)[0]
+  if (result === undefined || !result.end || result.text !== trimmed) {
+    return undefined
+  }
+  const certain = (components: chrono.ParsedComponents) =>
+    components.isCertain('month') && components.isCertain('day')
+  // chrono leaves the year of 'Jan 5' in 'Jan 5 to Feb 10, 2023' implied
+  // from the end, a certain year on either side is enough
+  if (
+    !certain(result.start) ||
+    !certain(result.end) ||
+    !(result.start.isCertain('year') || result.end.isCertain('year')) ||
+    (precision === 'minute' &&
+      !(result.start.isCertain('hour') && result.end.isCertain('hour')))
+  ) {
+    return undefined
+  }
+  const start = toGMT(result.start.date(), result.start, raw, timezone)
+  const end = toGMT(result.end.date(), result.end, raw, timezone)
+  if (!precision) {
+    return { start, end }
+  }
+  return {
+    start: fillPeriod(datePartsOf(start), precision, 'start'),
+    end: fillPeriod(datePartsOf(end), precision, 'end'),
+  }
+}
+
+/**
+ * Parses a date range like '2023-01-05 – 2023-02-10' or
+ * 'Jan 5 to Feb 10, 2023'. Both sides are read like SmartDateField reads a
+ * date, with precision the start is stored at the start of its period and
+ * the end at the end of its period.
+ *
+ * @param {string} raw - the range, its sides separated by a dash, 'to', 'until' or 'through', or an ISO 8601 interval
+ * @param {Array<Locales>} locales - locales to try, in order
+ * @param {DateRangeParseOptions} options - time zone, date order and precision
+ * @return {DateRange} the start and end of the range
+ */
+export const parseDateRange = (
+  raw: string,
+  locales: Locales[],
+  options: DateRangeParseOptions = {}
+): DateRange => {
+  const range =
+    parseRangeHalves(raw, locales, options) ??
+    _.reduce(
+      locales,
+      (found: DateRange | undefined, locale) =>
+        found ?? chronoParseRange(raw, locale, options),
+      undefined
+    )
+  if (range === undefined) {
+    throw new Error(
+      `'${raw}' is not a date range with a certain start and end, like 2023-01-05 – 2023-02-10`
+    )
+  }
+  if (range.start > range.end) {
+    throw new Error(`'${raw}' ends before it starts`)
+  }
+  return range
+}
+
+/**
+ * SmartDateRangeField reads a start and an end date from one cell, like
+ * leave periods sent as '2023-01-05 – 2023-02-10', and stores the range
+ * as text in `rangeFormat`. Each date is written with formatString, in GMT.
+ *
+ * Ranges that end before they start are errors. Pair the field with
+ * SmartDateRangeRecordCompute to split the range into two SmartDateFields.
+ */
+export const SmartDateRangeField = makeField<
+  string,
+  {
+    formatString?: string
+    rangeFormat?: string
+    locale?: Locales | Locales[]
+    timezone?: string
+    dateOrder?: DateOrder
+    precision?: DatePrecision
+  }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { formatString, rangeFormat, locale, ...options } = {
+    ...{
+      formatString: PrecisionFormatStrings[passedOptions.precision ?? 'day'],
+      rangeFormat: '{start}/{end}',
+      locale: 'en' as Locales | Locales[],
+      timezone: undefined,
+      dateOrder: 'auto' as DateOrder,
+      precision: undefined,
+    },
+    ...passedOptions,
+  }
+
+  checkDateParseOptions({ locale, ...options })
+  if (!rangeFormat.includes('{start}') || !rangeFormat.includes('{end}')) {
+    throw new Error(
+      `Invalid rangeFormat of ${rangeFormat}, expected it to contain {start} and {end}`
+    )
+  }
+  if (_.keys(passedOptions).includes('cast')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden cast function`
+    )
+  }
+
+  const locales = _.castArray(locale)
+  const formatRange = ({ start, end }: DateRange): string =>
+    rangeFormat
+      .replace('{start}', GMTFormatDate(start, formatString))
+      .replace('{end}', GMTFormatDate(end, formatString))
+  const cast = StringChainCast((val: string): string =>
+    formatRange(parseDateRange(val, locales, options))
+  )
+
+  // the stored range must read back as itself, otherwise it changes on every edit
+  const probe = formatRange({
+    start: new Date('2009-02-05T00:00:00.000Z'),
+    end: new Date('2009-02-24T00:00:00.000Z'),
+  })
+  let recast: unknown
+  try {
+    recast = cast(probe)
+  } catch (e: unknown) {
+    recast = e
+  }
+  if (recast !== probe) {
+    throw new Error(
+      `Error: instantiating a SmartDateRangeField with a formatString of ${formatString}, and rangeFormat of '${rangeFormat}'.  '${probe}' can't be read back, this will result in data loss or unexpected behavior`
+    )
+  }
+
+  return new Field(mergeFieldOptions(mergedOpts, { cast }))
 })
+
+export interface SmartDateRangeRecordComputeOptions {
+  // SmartDateRangeField to split
+  rangeField: string
+  // SmartDateFields receiving the start and end of the range
+  startField: string
+  endField: string
+  // as set on the SmartDateRangeField
+  locale?: Locales | Locales[]
+  timezone?: string
+  dateOrder?: DateOrder
+  precision?: DatePrecision
+}
+
+/**
+ * Builds a recordCompute that copies the start and end of a range into two
+ * SmartDateFields. Dates that are already there are kept, with a warning
+ * when they don't match the range.
+ *
+ * @example
+ * const leaveCompute = SmartDateRangeRecordCompute({
+ *   rangeField: 'LeavePeriod',
+ *   startField: 'LeaveStart',
+ *   endField: 'LeaveEnd',
+ * })
+ */
+export const SmartDateRangeRecordCompute = ({
+  rangeField,
+  startField,
+  endField,
+  locale = 'en',
+  ...options
+}: SmartDateRangeRecordComputeOptions) => {
+  const locales = _.castArray(locale)
+
+  return (record: FlatfileRecord): void => {
+    const value = record.get(rangeField)
+    if (!_.isString(value) || value === '') {
+      return
+    }
+    let range: DateRange
+    try {
+      range = parseDateRange(value, locales, options)
+    } catch (e: unknown) {
+      // the range field already has the error
+      return
+    }
+
+    const ends: [string, Date][] = [
+      [startField, range.start],
+      [endField, range.end],
+    ]
+    ends.forEach(([field, date]) => {
+      const current = record.get(field)
+      if (_.isNil(current) || current === '') {
+        setDate(record, field, date)
+      } else if (!_.isDate(current) || current.getTime() !== date.getTime()) {
+        record.addWarning(
+          field,
+          `${field} doesn't match the ${rangeField} of '${value}'`
+        )
+      }
+    })
+  }
+}
@@ -0,0 +1,81 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import {
+  SynonymOptionField,
+  SynonymRecordCompute,
+  buildSynonymLookup,
+} from './SynonymOptionField'
+
+const SynonymSheet = new Sheet(
+  'SynonymSheet',
+  {
+    Gender: SynonymOptionField({
+      options: { Male: 'Male', Female: 'Female', Other: 'Other' },
+      synonyms: { Male: ['M'], Female: ['F'] },
+    }),
+    Status: SynonymOptionField({
+      options: { Active: 'Active', OnHold: 'On Hold' },
+      synonyms: { OnHold: ['Hold'] },
+    }),
+  },
+  { recordCompute: SynonymRecordCompute(['Gender', 'Status']) }
+)
+
+const SynonymBook = new Workbook({
+  name: 'SynonymBook',
+  namespace: 'test',
+  sheets: { SynonymSheet },
+})
+
+describe('buildSynonymLookup ->', () => {
+  test('synonyms must belong to an option', () => {
+    expect(() =>
+      buildSynonymLookup({ Male: 'Male' }, { Female: ['F'] })
+    ).toThrow()
+  })
+
+  test('a synonym can only belong to one option', () => {
+    expect(() =>
+      buildSynonymLookup(
+        { Hold: 'Hold', OnHold: 'On Hold' },
+        { OnHold: ['Hold'] }
+      )
+    ).toThrow()
+  })
+})
+
+describe('SynonymOptionField ->', () => {
+  const testSheet = new SheetTester(SynonymBook, 'SynonymSheet')
+
+  test('synonyms, keys and labels are cast to the option key', async () => {
+    const res = await testSheet.testRecords([
+      { Gender: 'm', Status: 'On-Hold' },
+      { Gender: 'FEMALE', Status: 'hold' },
+      { Gender: 'Other', Status: 'active' },
+    ])
+    expect(res.map((r) => r['Gender'])).toEqual(['Male', 'Female', 'Other'])
+    expect(res.map((r) => r['Status'])).toEqual(['OnHold', 'OnHold', 'Active'])
+  })
+
+  test('the original value is kept in an info message', async () => {
+    const resMessages = await testSheet.testMessage({
+      Gender: 'M',
+      Status: 'Active',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'Gender',
+        "Value was normalized from 'M' to 'Male'",
+        'info'
+      )
+    ).toBeTruthy()
+    expect(resMessages).toHaveLength(1)
+  })
+
+  test('unknown values are left unchanged', async () => {
+    const res = await testSheet.testRecord({ Gender: 'X', Status: 'Active' })
+    expect(res['Gender']).toBe('X')
+  })
+})
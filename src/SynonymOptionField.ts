@@ -0,0 +1,105 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+import { stdlib, OptionField, TextField, makeField } from '@flatfile/configure'
+const { StringChainCast } = stdlib.cast
+
+const normalizeOption = (x: string): string =>
+  _.deburr(x)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+
+/**
+ * Builds a lookup from every accepted spelling of an option to its key. Keys,
+ * labels and synonyms all match ignoring case, spaces and punctuation, so
+ * 'on-hold' and 'On Hold' both find 'OnHold'.
+ *
+ * @param {Record<string, string>} options - option keys and their labels
+ * @param {Record<string, Array<string>>} synonyms - extra spellings for some of the keys
+ * @return {Record<string, string>} normalized spellings mapped to option keys
+ */
+export const buildSynonymLookup = (
+  options: Record<string, string>,
+  synonyms: Record<string, string[]> = {}
+): Record<string, string> => {
+  _.keys(synonyms).forEach((key) => {
+    if (options[key] === undefined) {
+      throw new Error(
+        `Invalid synonyms for ${key}, it doesn't appear as one of the keys in ${_.keys(
+          options
+        )}`
+      )
+    }
+  })
+
+  const lookup: Record<string, string> = {}
+  _.toPairs(options).forEach(([key, label]) => {
+    ;[key, label, ...(synonyms[key] ?? [])].forEach((spelling) => {
+      const normalized = normalizeOption(spelling)
+      const existing = lookup[normalized]
+      if (existing !== undefined && existing !== key) {
+        throw new Error(
+          `'${spelling}' can't be a synonym of both ${existing} and ${key}`
+        )
+      }
+      lookup[normalized] = key
+    })
+  })
+  return lookup
+}
+
+/**
+ * SynonymOptionField is an OptionField that also accepts synonyms of its
+ * options. Values are cast to the option key, so only the keys are shown to
+ * users and written out. Values matching no option are left for the enum
+ * check to reject.
+ *
+ * Pair it with SynonymRecordCompute to record the original value.
+ */
+export const SynonymOptionField = makeField<
+  string,
+  { options: Record<string, string>; synonyms?: Record<string, string[]> }
+>(TextField({}), {}, (mergedOpts, passedOptions) => {
+  const { options, synonyms, ...fieldOptions } = passedOptions
+
+  if (_.keys(passedOptions).includes('cast')) {
+    throw new Error(
+      `Cannot instantiate this field with an overridden cast function`
+    )
+  }
+
+  const lookup = buildSynonymLookup(options, synonyms)
+  const cast = StringChainCast((val: string): string => {
+    return lookup[normalizeOption(val)] ?? val
+  })
+
+  return OptionField({ ...fieldOptions, options, cast })
+})
+
+/**
+ * Builds a recordCompute that adds an info message to each of the fields
+ * whose value was changed by its cast, e.g. a synonym cast to its option key
+ * by SynonymOptionField.
+ *
+ * @example
+ * const optionSynonyms = SynonymRecordCompute(['Gender', 'Status'])
+ */
+export const SynonymRecordCompute = (fields: string[]) => {
+  return (record: FlatfileRecord): void => {
+    fields.forEach((field) => {
+      const original = record.originalValue[field]
+      const value = record.get(field)
+      if (
+        !_.isString(original) ||
+        !_.isString(value) ||
+        value === '' ||
+        original.trim() === value
+      ) {
+        return
+      }
+      record.addInfo(
+        field,
+        `Value was normalized from '${original}' to '${value}'`
+      )
+    })
+  }
+}
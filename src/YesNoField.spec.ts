@@ -0,0 +1,75 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import { YesNoField, parseYesNo } from './YesNoField'
+
+const YesNoSheet = new Sheet('YesNoSheet', {
+  answer: YesNoField({}),
+  flag: YesNoField({ format: '1/0', trueValues: ['checked'] }),
+  checkbox: YesNoField({ format: 'true/false', default: false }),
+})
+
+const YesNoBook = new Workbook({
+  name: 'YesNoBook',
+  namespace: 'test',
+  sheets: { YesNoSheet },
+})
+
+describe('parseYesNo ->', () => {
+  test('english and localized answers', () => {
+    expect(
+      ['Yes', 'y', 'TRUE', '1', 'x', 'oui', 'Ja'].map((v) => parseYesNo(v))
+    ).toEqual([true, true, true, true, true, true, true])
+    expect(
+      ['No', 'n', 'false', '0', 'non', 'Nein'].map((v) => parseYesNo(v))
+    ).toEqual([false, false, false, false, false, false])
+  })
+
+  test('unrecognized answers', () => {
+    expect(parseYesNo('maybe')).toBeUndefined()
+  })
+})
+
+describe('YesNoField ->', () => {
+  const testSheet = new SheetTester(YesNoBook, 'YesNoSheet')
+
+  test('answers are written out in the configured format', async () => {
+    const res = await testSheet.testRecord({
+      answer: 'y',
+      flag: 'Checked',
+      checkbox: 'x',
+    })
+    expect(res).toMatchObject({ answer: 'Yes', flag: '1', checkbox: 'true' })
+  })
+
+  test('blanks use the default', async () => {
+    const res = await testSheet.testRecord({
+      answer: '',
+      flag: 'non',
+      checkbox: '',
+    })
+    expect(res).toMatchObject({ answer: null, flag: '0', checkbox: 'false' })
+  })
+
+  test('unrecognized answers are errors', async () => {
+    const resMessages = await testSheet.testMessage({
+      answer: 'maybe',
+      flag: '',
+      checkbox: '',
+    })
+    expect(
+      matchSingleMessage(
+        resMessages,
+        'answer',
+        "Error: 'maybe' is not a recognized yes or no answer",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('overriding egressFormat throws', () => {
+    expect(() =>
+      YesNoField({ egressFormat: (val: boolean) => String(val) })
+    ).toThrow()
+  })
+})
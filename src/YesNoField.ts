@@ -0,0 +1,126 @@
+import _ from 'lodash'
+import {
+  stdlib,
+  Field,
+  BooleanField,
+  makeField,
+  mergeFieldOptions,
+} from '@flatfile/configure'
+const { StringChainCast } = stdlib.cast
+
+type YesNoFormat = 'Yes/No' | 'true/false' | '1/0'
+
+export const TruthyValues = [
+  'yes',
+  'y',
+  'true',
+  't',
+  '1',
+  'x',
+  'on',
+  'oui',
+  'ja',
+  'j',
+  'si',
+  'sí',
+  'vrai',
+  'wahr',
+]
+
+export const FalsyValues = [
+  'no',
+  'n',
+  'false',
+  'f',
+  '0',
+  'off',
+  'non',
+  'nein',
+  'faux',
+  'falsch',
+]
+
+const EgressValues: Record<YesNoFormat, [string, string]> = {
+  'Yes/No': ['Yes', 'No'],
+  'true/false': ['true', 'false'],
+  '1/0': ['1', '0'],
+}
+
+/**
+ * Reads a yes/no answer, ignoring case and surrounding whitespace.
+ *
+ * @param {string} raw - the answer to read
+ * @param {Array<string>} trueValues - extra values read as true
+ * @param {Array<string>} falseValues - extra values read as false
+ * @return {boolean | undefined} the answer, undefined when raw isn't a recognized answer
+ */
+export const parseYesNo = (
+  raw: string,
+  trueValues: string[] = [],
+  falseValues: string[] = []
+): boolean | undefined => {
+  const key = raw.trim().toLowerCase()
+  const matches = (values: string[]) =>
+    values.some((value) => value.toLowerCase() === key)
+  if (matches([...TruthyValues, ...trueValues])) {
+    return true
+  }
+  if (matches([...FalsyValues, ...falseValues])) {
+    return false
+  }
+  return undefined
+}
+
+/**
+ * YesNoField holds a boolean and writes it out in the configured format.
+ * Blanks are empty rather than false, pass `default: false` for checkbox
+ * style columns where an x means yes and a blank means no.
+ */
+export const YesNoField = makeField<
+  boolean,
+  { format?: YesNoFormat; trueValues?: string[]; falseValues?: string[] }
+>(
+  BooleanField({}),
+  // egressFormat writes strings
+  { type: 'string' },
+  (mergedOpts, passedOptions) => {
+    const { format, trueValues, falseValues } = {
+      ...{ format: 'Yes/No' as YesNoFormat, trueValues: [], falseValues: [] },
+      ...passedOptions,
+    }
+
+    if (_.keys(passedOptions).includes('cast')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden cast function`
+      )
+    }
+    if (_.keys(passedOptions).includes('egressFormat')) {
+      throw new Error(
+        `Cannot instantiate this field with an overridden egressFormat function`
+      )
+    }
+    if (EgressValues[format] === undefined) {
+      throw new Error(
+        `Invalid format of ${format}, expected one of ${_.keys(EgressValues)}`
+      )
+    }
+
+    const cast = StringChainCast((val: string | boolean): boolean => {
+      if (_.isBoolean(val)) {
+        return val
+      }
+      const answer = parseYesNo(val, trueValues, falseValues)
+      if (answer === undefined) {
+        throw new Error(`'${val}' is not a recognized yes or no answer`)
+      }
+      return answer
+    })
+
+    const egressFormat = (val: boolean): string => {
+      const [yes, no] = EgressValues[format]
+      return val ? yes : no
+    }
+
+    return new Field(mergeFieldOptions(mergedOpts, { cast, egressFormat }))
+  }
+)
@@ -0,0 +1,48 @@
+/**
+ * Domains of well known disposable (throwaway) email providers. The list is
+ * not exhaustive, it catches the providers seen most often in uploads.
+ */
+export const ListDisposableEmailDomainsFragment = [
+  '10minutemail.com',
+  '20minutemail.com',
+  '33mail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'harakirimail.com',
+  'incognitomail.org',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailinator.net',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spam4.me',
+  'spambox.us',
+  'spamgourmet.com',
+  'tempail.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempmail.net',
+  'tempmailaddress.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+]
@@ -0,0 +1,215 @@
+/**
+ * ISO 3166-2 subdivision codes, keyed by the ISO 3166 country code used in
+ * ListCountriesFragment. Only Australia (AU), Brazil (BR), Canada (CA),
+ * Germany (DE), India (IN), Mexico (MX) and the United States (US) are
+ * listed, the other countries, including the United Kingdom (GB), have no
+ * subdivision list available for validation.
+ */
+export const ListSubdivisionsFragment: Record<
+  string,
+  Record<string, string>
+> = {
+  AU: {
+    'AU-ACT': 'Australian Capital Territory',
+    'AU-NSW': 'New South Wales',
+    'AU-NT': 'Northern Territory',
+    'AU-QLD': 'Queensland',
+    'AU-SA': 'South Australia',
+    'AU-TAS': 'Tasmania',
+    'AU-VIC': 'Victoria',
+    'AU-WA': 'Western Australia',
+  },
+  BR: {
+    'BR-AC': 'Acre',
+    'BR-AL': 'Alagoas',
+    'BR-AM': 'Amazonas',
+    'BR-AP': 'Amapá',
+    'BR-BA': 'Bahia',
+    'BR-CE': 'Ceará',
+    'BR-DF': 'Distrito Federal',
+    'BR-ES': 'Espírito Santo',
+    'BR-GO': 'Goiás',
+    'BR-MA': 'Maranhão',
+    'BR-MG': 'Minas Gerais',
+    'BR-MS': 'Mato Grosso do Sul',
+    'BR-MT': 'Mato Grosso',
+    'BR-PA': 'Pará',
+    'BR-PB': 'Paraíba',
+    'BR-PE': 'Pernambuco',
+    'BR-PI': 'Piauí',
+    'BR-PR': 'Paraná',
+    'BR-RJ': 'Rio de Janeiro',
+    'BR-RN': 'Rio Grande do Norte',
+    'BR-RO': 'Rondônia',
+    'BR-RR': 'Roraima',
+    'BR-RS': 'Rio Grande do Sul',
+    'BR-SC': 'Santa Catarina',
+    'BR-SE': 'Sergipe',
+    'BR-SP': 'São Paulo',
+    'BR-TO': 'Tocantins',
+  },
+  CA: {
+    'CA-AB': 'Alberta',
+    'CA-BC': 'British Columbia',
+    'CA-MB': 'Manitoba',
+    'CA-NB': 'New Brunswick',
+    'CA-NL': 'Newfoundland and Labrador',
+    'CA-NS': 'Nova Scotia',
+    'CA-NT': 'Northwest Territories',
+    'CA-NU': 'Nunavut',
+    'CA-ON': 'Ontario',
+    'CA-PE': 'Prince Edward Island',
+    'CA-QC': 'Quebec',
+    'CA-SK': 'Saskatchewan',
+    'CA-YT': 'Yukon',
+  },
+  DE: {
+    'DE-BB': 'Brandenburg',
+    'DE-BE': 'Berlin',
+    'DE-BW': 'Baden-Württemberg',
+    'DE-BY': 'Bayern',
+    'DE-HB': 'Bremen',
+    'DE-HE': 'Hessen',
+    'DE-HH': 'Hamburg',
+    'DE-MV': 'Mecklenburg-Vorpommern',
+    'DE-NI': 'Niedersachsen',
+    'DE-NW': 'Nordrhein-Westfalen',
+    'DE-RP': 'Rheinland-Pfalz',
+    'DE-SH': 'Schleswig-Holstein',
+    'DE-SL': 'Saarland',
+    'DE-SN': 'Sachsen',
+    'DE-ST': 'Sachsen-Anhalt',
+    'DE-TH': 'Thüringen',
+  },
+  IN: {
+    'IN-AN': 'Andaman and Nicobar Islands',
+    'IN-AP': 'Andhra Pradesh',
+    'IN-AR': 'Arunachal Pradesh',
+    'IN-AS': 'Assam',
+    'IN-BR': 'Bihar',
+    'IN-CH': 'Chandigarh',
+    'IN-CT': 'Chhattisgarh',
+    'IN-DH': 'Dadra and Nagar Haveli and Daman and Diu',
+    'IN-DL': 'Delhi',
+    'IN-GA': 'Goa',
+    'IN-GJ': 'Gujarat',
+    'IN-HP': 'Himachal Pradesh',
+    'IN-HR': 'Haryana',
+    'IN-JH': 'Jharkhand',
+    'IN-JK': 'Jammu and Kashmir',
+    'IN-KA': 'Karnataka',
+    'IN-KL': 'Kerala',
+    'IN-LA': 'Ladakh',
+    'IN-LD': 'Lakshadweep',
+    'IN-MH': 'Maharashtra',
+    'IN-ML': 'Meghalaya',
+    'IN-MN': 'Manipur',
+    'IN-MP': 'Madhya Pradesh',
+    'IN-MZ': 'Mizoram',
+    'IN-NL': 'Nagaland',
+    'IN-OD': 'Odisha',
+    'IN-PB': 'Punjab',
+    'IN-PY': 'Puducherry',
+    'IN-RJ': 'Rajasthan',
+    'IN-SK': 'Sikkim',
+    'IN-TG': 'Telangana',
+    'IN-TN': 'Tamil Nadu',
+    'IN-TR': 'Tripura',
+    'IN-UP': 'Uttar Pradesh',
+    'IN-UT': 'Uttarakhand',
+    'IN-WB': 'West Bengal',
+  },
+  MX: {
+    'MX-AGU': 'Aguascalientes',
+    'MX-BCN': 'Baja California',
+    'MX-BCS': 'Baja California Sur',
+    'MX-CAM': 'Campeche',
+    'MX-CHH': 'Chihuahua',
+    'MX-CHP': 'Chiapas',
+    'MX-CMX': 'Ciudad de México',
+    'MX-COA': 'Coahuila de Zaragoza',
+    'MX-COL': 'Colima',
+    'MX-DUR': 'Durango',
+    'MX-GRO': 'Guerrero',
+    'MX-GUA': 'Guanajuato',
+    'MX-HID': 'Hidalgo',
+    'MX-JAL': 'Jalisco',
+    'MX-MEX': 'México',
+    'MX-MIC': 'Michoacán de Ocampo',
+    'MX-MOR': 'Morelos',
+    'MX-NAY': 'Nayarit',
+    'MX-NLE': 'Nuevo León',
+    'MX-OAX': 'Oaxaca',
+    'MX-PUE': 'Puebla',
+    'MX-QUE': 'Querétaro',
+    'MX-ROO': 'Quintana Roo',
+    'MX-SIN': 'Sinaloa',
+    'MX-SLP': 'San Luis Potosí',
+    'MX-SON': 'Sonora',
+    'MX-TAB': 'Tabasco',
+    'MX-TAM': 'Tamaulipas',
+    'MX-TLA': 'Tlaxcala',
+    'MX-VER': 'Veracruz de Ignacio de la Llave',
+    'MX-YUC': 'Yucatán',
+    'MX-ZAC': 'Zacatecas',
+  },
+  US: {
+    'US-AK': 'Alaska',
+    'US-AL': 'Alabama',
+    'US-AR': 'Arkansas',
+    'US-AS': 'American Samoa',
+    'US-AZ': 'Arizona',
+    'US-CA': 'California',
+    'US-CO': 'Colorado',
+    'US-CT': 'Connecticut',
+    'US-DC': 'District of Columbia',
+    'US-DE': 'Delaware',
+    'US-FL': 'Florida',
+    'US-GA': 'Georgia',
+    'US-GU': 'Guam',
+    'US-HI': 'Hawaii',
+    'US-IA': 'Iowa',
+    'US-ID': 'Idaho',
+    'US-IL': 'Illinois',
+    'US-IN': 'Indiana',
+    'US-KS': 'Kansas',
+    'US-KY': 'Kentucky',
+    'US-LA': 'Louisiana',
+    'US-MA': 'Massachusetts',
+    'US-MD': 'Maryland',
+    'US-ME': 'Maine',
+    'US-MI': 'Michigan',
+    'US-MN': 'Minnesota',
+    'US-MO': 'Missouri',
+    'US-MP': 'Northern Mariana Islands',
+    'US-MS': 'Mississippi',
+    'US-MT': 'Montana',
+    'US-NC': 'North Carolina',
+    'US-ND': 'North Dakota',
+    'US-NE': 'Nebraska',
+    'US-NH': 'New Hampshire',
+    'US-NJ': 'New Jersey',
+    'US-NM': 'New Mexico',
+    'US-NV': 'Nevada',
+    'US-NY': 'New York',
+    'US-OH': 'Ohio',
+    'US-OK': 'Oklahoma',
+    'US-OR': 'Oregon',
+    'US-PA': 'Pennsylvania',
+    'US-PR': 'Puerto Rico',
+    'US-RI': 'Rhode Island',
+    'US-SC': 'South Carolina',
+    'US-SD': 'South Dakota',
+    'US-TN': 'Tennessee',
+    'US-TX': 'Texas',
+    'US-UM': 'United States Minor Outlying Islands',
+    'US-UT': 'Utah',
+    'US-VA': 'Virginia',
+    'US-VI': 'Virgin Islands, U.S.',
+    'US-VT': 'Vermont',
+    'US-WA': 'Washington',
+    'US-WI': 'Wisconsin',
+    'US-WV': 'West Virginia',
+    'US-WY': 'Wyoming',
+  },
+}
@@ -0,0 +1,134 @@
+import { OptionField, Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { ListCountriesFragment } from '../fragments/countries'
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { AddressRecordCompute, parseAddress } from './address-record-compute'
+
+const AddressSheet = new Sheet(
+  'AddressSheet',
+  {
+    Address: TextField(),
+    SuiteNumber: TextField(),
+    City: TextField(),
+    Province: TextField(),
+    PostalCode: TextField(),
+    Country: OptionField({ options: { ...ListCountriesFragment } }),
+  },
+  {
+    recordCompute: AddressRecordCompute({
+      addressField: 'Address',
+      suiteNumberField: 'SuiteNumber',
+      cityField: 'City',
+      provinceField: 'Province',
+      postalCodeField: 'PostalCode',
+      countryField: 'Country',
+    }),
+  }
+)
+
+const AddressBook = new Workbook({
+  name: 'AddressBook',
+  namespace: 'test',
+  sheets: { AddressSheet },
+})
+
+const emptyAddress = {
+  SuiteNumber: '',
+  City: '',
+  Province: '',
+  PostalCode: '',
+  Country: '',
+}
+
+describe('parseAddress ->', () => {
+  test('canadian addresses', () => {
+    expect(
+      parseAddress('123 Main St, Suite 400, Toronto, ON M5V 2T6, Canada')
+    ).toEqual({
+      address: '123 Main St',
+      suiteNumber: '400',
+      city: 'Toronto',
+      province: 'ON',
+      postalCode: 'M5V 2T6',
+      country: 'CA',
+    })
+    expect(
+      parseAddress('456 Rue Sainte-Catherine, Montréal, QC, H3B 1A7')
+    ).toMatchObject({ city: 'Montréal', province: 'QC', country: 'CA' })
+  })
+
+  test('US addresses', () => {
+    expect(
+      parseAddress('350 Fifth Avenue Apt 5B, New York, NY 10118-0110, USA')
+    ).toEqual({
+      address: '350 Fifth Avenue',
+      suiteNumber: '5B',
+      city: 'New York',
+      province: 'NY',
+      postalCode: '10118-0110',
+      country: 'US',
+    })
+    // CA is California here, not Canada
+    expect(parseAddress('1 Infinite Loop, Cupertino, CA')).toMatchObject({
+      province: 'CA',
+      country: 'US',
+    })
+  })
+
+  test('UK addresses', () => {
+    expect(parseAddress('Flat 3, 221B Baker Street, London NW1 6XE')).toEqual({
+      address: '221B Baker Street',
+      suiteNumber: '3',
+      city: 'London',
+      postalCode: 'NW1 6XE',
+      country: 'GB',
+    })
+    expect(
+      parseAddress('10 Downing Street, London, SW1A 2AA, United Kingdom')
+    ).toMatchObject({ city: 'London', postalCode: 'SW1A 2AA', country: 'GB' })
+  })
+
+  test('values that are not a full address', () => {
+    expect(parseAddress('123 Main St')).toBeUndefined()
+    expect(parseAddress('Somewhere, Nowhere')).toBeUndefined()
+  })
+})
+
+describe('AddressRecordCompute ->', () => {
+  const testSheet = new SheetTester(AddressBook, 'AddressSheet')
+
+  test('splits a full address into empty fields', async () => {
+    const record = {
+      ...emptyAddress,
+      Address: '123 Main St, Suite 400, Toronto, ON M5V 2T6, Canada',
+    }
+    const res = await testSheet.testRecord(record)
+    expect(res).toMatchObject({
+      Address: '123 Main St',
+      SuiteNumber: '400',
+      City: 'Toronto',
+      Province: 'ON',
+      PostalCode: 'M5V 2T6',
+      Country: 'CA',
+    })
+    const messages = await testSheet.testMessage(record)
+    expect(
+      matchSingleMessage(
+        messages,
+        'City',
+        "'Toronto' was derived from Address",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+
+  test('leaves records with address fields already filled', async () => {
+    const res = await testSheet.testRecord({
+      ...emptyAddress,
+      Address: '123 Main St, Toronto, ON M5V 2T6',
+      City: 'Toronto',
+    })
+    expect(res['Address']).toBe('123 Main St, Toronto, ON M5V 2T6')
+    expect(res['PostalCode']).toBeNull()
+  })
+})
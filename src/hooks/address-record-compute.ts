@@ -0,0 +1,237 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { ListCountriesFragment } from '../fragments/countries'
+import { findSubdivisionCode } from './subdivision-record-compute'
+
+export interface ParsedAddress {
+  address: string
+  suiteNumber?: string
+  city?: string
+  province?: string
+  postalCode?: string
+  // ISO 3166 country code, a key of ListCountriesFragment
+  country?: string
+}
+
+export interface AddressRecordComputeOptions {
+  // field holding the single line address, it keeps the street part
+  addressField: string
+  suiteNumberField: string
+  cityField: string
+  provinceField: string
+  postalCodeField: string
+  countryField: string
+}
+
+// countries whose address structure is understood, in the order they are tried
+const AddressCountries = ['US', 'CA', 'GB']
+
+// postal codes at the end of the region part of an address
+const TrailingPostalCodes: Record<string, RegExp> = {
+  US: /^(.*?)\s*(\d{5}(?:-\d{4})?)$/,
+  CA: /^(.*?)\s*([A-Z]\d[A-Z]\s?\d[A-Z]\d)$/i,
+  GB: /^(.*?)\s*((?:[A-Z]{1,2}\d[A-Z\d]?|GIR)\s?\d[A-Z]{2})$/i,
+}
+
+const SuitePattern =
+  /^(?:suite|ste\.?|unit|apt\.?|apartment|flat|room|rm\.?|#)\s*#?\s*([A-Z0-9-]+)$/i
+const TrailingSuitePattern =
+  /^(.*\S)\s+((?:suite|ste\.?|unit|apt\.?|apartment|flat|#)\s*#?\s*[A-Z0-9-]+)$/i
+
+// ISO codes other than these aren't matched, 'CA' ends many Californian addresses
+const CountryAliases: Record<string, string> = {
+  US: 'US',
+  USA: 'US',
+  GB: 'GB',
+  UNITEDSTATESOFAMERICA: 'US',
+  UK: 'GB',
+  GREATBRITAIN: 'GB',
+  ENGLAND: 'GB',
+  SCOTLAND: 'GB',
+  WALES: 'GB',
+  NORTHERNIRELAND: 'GB',
+}
+
+const normalizeName = (x: string): string =>
+  _.deburr(x)
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '')
+
+const findCountry = (part: string): string | undefined => {
+  const key = normalizeName(part)
+  if (CountryAliases[key] !== undefined) {
+    return CountryAliases[key]
+  }
+  return _.findKey(ListCountriesFragment, (name) => normalizeName(name) === key)
+}
+
+interface Region {
+  country: string
+  province?: string
+  postalCode?: string
+  city?: string
+}
+
+/**
+ * Reads the region part of an address, e.g. 'ON M5V 2T6', 'NY 10001' or
+ * 'London SW1A 2AA'. Subdivisions are kept as written, they are normalized
+ * by SubdivisionRecordCompute.
+ */
+const parseRegion = (part: string, countries: string[]): Region | undefined => {
+  for (const country of countries) {
+    const withPostalCode = part.match(TrailingPostalCodes[country])
+    const [rest, postalCode] = withPostalCode
+      ? [withPostalCode[1].trim(), withPostalCode[2]]
+      : [part, undefined]
+
+    if (rest === '') {
+      if (postalCode !== undefined) {
+        return { country, postalCode }
+      }
+      continue
+    }
+    if (findSubdivisionCode(rest, country) !== undefined) {
+      return { country, province: rest, postalCode }
+    }
+    // there are no subdivisions in a UK address, the post town comes first
+    if (country === 'GB' && postalCode !== undefined) {
+      return { country, city: rest, postalCode }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parses a single line address with comma separated parts, e.g.
+ * '123 Main St, Suite 400, Toronto, ON M5V 2T6, Canada'. US, Canadian and UK
+ * addresses are understood, the country can be left out when the postal code
+ * or subdivision gives it away.
+ *
+ * @param {string} raw - the address to parse
+ * @return {ParsedAddress | undefined} the parts of the address, undefined when raw doesn't look like a full address
+ */
+export const parseAddress = (raw: string): ParsedAddress | undefined => {
+  const parts = raw
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+  if (parts.length < 2) {
+    return undefined
+  }
+
+  const parsed: Partial<ParsedAddress> = {}
+
+  const country = findCountry(_.last(parts) as string)
+  if (country !== undefined) {
+    parsed.country = country
+    parts.pop()
+  }
+  const countries =
+    country === undefined
+      ? AddressCountries
+      : AddressCountries.filter((c) => c === country)
+  if (countries.length === 0 || parts.length < 2) {
+    return undefined
+  }
+
+  const region = parseRegion(parts.pop() as string, countries)
+  if (region === undefined) {
+    return undefined
+  }
+  Object.assign(parsed, _.omitBy(region, _.isUndefined))
+
+  // 'Toronto, ON, M5V 2T6' keeps the subdivision in a part of its own
+  if (
+    region.postalCode !== undefined &&
+    region.province === undefined &&
+    region.city === undefined
+  ) {
+    const previous = parseRegion(_.last(parts) as string, [region.country])
+    if (previous?.province !== undefined && previous.postalCode === undefined) {
+      parsed.province = previous.province
+      parts.pop()
+    }
+  }
+  if (parsed.city === undefined && parts.length >= 2) {
+    parsed.city = parts.pop()
+  }
+
+  const street = parts.filter((part) => {
+    const suite = part.match(SuitePattern)
+    if (parts.length > 1 && suite && parsed.suiteNumber === undefined) {
+      parsed.suiteNumber = suite[1]
+      return false
+    }
+    return true
+  })
+  const trailingSuite = street[0].match(TrailingSuitePattern)
+  if (parsed.suiteNumber === undefined && trailingSuite) {
+    street[0] = trailingSuite[1]
+    parsed.suiteNumber = (trailingSuite[2].match(SuitePattern) ?? [])[1]
+  }
+
+  return { ...parsed, address: street.join(', ') }
+}
+
+/**
+ * Builds a recordCompute that splits a full address pasted into the address
+ * field into its parts. It only runs when all of the other address fields
+ * are empty, and notes each value it derives in an info message. Run it
+ * before SubdivisionRecordCompute and PostalCodeRecordCompute so the parts
+ * are normalized and validated.
+ *
+ * @example
+ * const addressCompute = AddressRecordCompute({
+ *   addressField: 'Address',
+ *   suiteNumberField: 'SuiteNumber',
+ *   cityField: 'City',
+ *   provinceField: 'Province',
+ *   postalCodeField: 'PostalCode',
+ *   countryField: 'Country',
+ * })
+ */
+export const AddressRecordCompute = ({
+  addressField,
+  ...targetFields
+}: AddressRecordComputeOptions) => {
+  const fieldsByPart: Record<keyof Omit<ParsedAddress, 'address'>, string> = {
+    suiteNumber: targetFields.suiteNumberField,
+    city: targetFields.cityField,
+    province: targetFields.provinceField,
+    postalCode: targetFields.postalCodeField,
+    country: targetFields.countryField,
+  }
+
+  return (record: FlatfileRecord): void => {
+    const raw = record.get(addressField)
+    if (!_.isString(raw) || raw.trim() === '') {
+      return
+    }
+    const targetsEmpty = _.values(fieldsByPart).every((field) => {
+      const value = record.get(field)
+      return _.isNil(value) || value === ''
+    })
+    if (!targetsEmpty) {
+      return
+    }
+
+    const parsed = parseAddress(raw)
+    if (parsed === undefined) {
+      return
+    }
+
+    record.set(addressField, parsed.address)
+    record.addInfo(
+      addressField,
+      `'${raw}' was split into its address parts, leaving '${parsed.address}'`
+    )
+    _.toPairs(fieldsByPart).forEach(([part, field]) => {
+      const value = parsed[part as keyof ParsedAddress]
+      if (value !== undefined) {
+        record.set(field, value)
+        record.addInfo(field, `'${value}' was derived from ${addressField}`)
+      }
+    })
+  }
+}
@@ -0,0 +1,102 @@
+import { OptionField, Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { RecordRulesRecordCompute } from './record-rules-record-compute'
+import {
+  forbiddenWhen,
+  requiredUnless,
+  requiredWhen,
+} from './conditional-requirements-record-compute'
+
+const StatusSheet = new Sheet(
+  'StatusSheet',
+  {
+    Status: OptionField({
+      options: {
+        Active: 'Active',
+        Terminated: 'Terminated',
+        Applicant: 'Applicant',
+        Rejected: 'Rejected',
+      },
+    }),
+    EmploymentDate: TextField(),
+    TerminationDate: TextField(),
+  },
+  {
+    recordCompute: RecordRulesRecordCompute([
+      requiredWhen('TerminationDate', 'Status', ['Terminated']),
+      forbiddenWhen('TerminationDate', 'Status', ['Active']),
+      requiredUnless('EmploymentDate', 'Status', ['Applicant', 'Rejected']),
+    ]),
+  }
+)
+
+const StatusBook = new Workbook({
+  name: 'StatusBook',
+  namespace: 'test',
+  sheets: { StatusSheet },
+})
+
+describe('conditional requirements ->', () => {
+  const testSheet = new SheetTester(StatusBook, 'StatusSheet')
+
+  test.each([
+    { Status: 'Active', EmploymentDate: '2020-01-01', TerminationDate: '' },
+    {
+      Status: 'Terminated',
+      EmploymentDate: '2020-01-01',
+      TerminationDate: '2021-01-01',
+    },
+    { Status: 'Applicant', EmploymentDate: '', TerminationDate: '' },
+  ])('valid combinations have no messages', async (row) => {
+    expect(await testSheet.testMessage(row)).toEqual([])
+  })
+
+  test('required when', async () => {
+    const messages = await testSheet.testMessage({
+      Status: 'Terminated',
+      EmploymentDate: '2020-01-01',
+      TerminationDate: '',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'TerminationDate',
+        "TerminationDate is required when Status is 'Terminated'",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('forbidden when', async () => {
+    const messages = await testSheet.testMessage({
+      Status: 'Active',
+      EmploymentDate: '2020-01-01',
+      TerminationDate: '2021-01-01',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'TerminationDate',
+        "TerminationDate must be empty when Status is 'Active'",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('required unless', async () => {
+    const messages = await testSheet.testMessage({
+      Status: 'Active',
+      EmploymentDate: '',
+      TerminationDate: '',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'EmploymentDate',
+        'EmploymentDate is required unless Status is one of [Applicant, Rejected]',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+})
@@ -0,0 +1,64 @@
+import _ from 'lodash'
+
+import { RecordRule } from './record-rules-record-compute'
+
+const isPresent = (value: unknown): boolean =>
+  !_.isNil(value) && !(_.isString(value) && value.trim() === '')
+
+const describeValues = (values: string[]): string =>
+  values.length === 1 ? `'${values[0]}'` : `one of [${values.join(', ')}]`
+
+/**
+ * field must have a value when conditionField is one of values.
+ */
+export const requiredWhen =
+  (field: string, conditionField: string, values: string[]): RecordRule =>
+  (record) => {
+    const condition = record.get(conditionField)
+    if (values.includes(condition as string) && !isPresent(record.get(field))) {
+      record.addError(
+        field,
+        `${field} is required when ${conditionField} is ${describeValues(
+          values
+        )}`
+      )
+    }
+  }
+
+/**
+ * field must have a value unless conditionField is one of values.
+ */
+export const requiredUnless =
+  (field: string, conditionField: string, values: string[]): RecordRule =>
+  (record) => {
+    const condition = record.get(conditionField)
+    if (
+      isPresent(condition) &&
+      !values.includes(condition as string) &&
+      !isPresent(record.get(field))
+    ) {
+      record.addError(
+        field,
+        `${field} is required unless ${conditionField} is ${describeValues(
+          values
+        )}`
+      )
+    }
+  }
+
+/**
+ * field must be empty when conditionField is one of values.
+ */
+export const forbiddenWhen =
+  (field: string, conditionField: string, values: string[]): RecordRule =>
+  (record) => {
+    const condition = record.get(conditionField)
+    if (values.includes(condition as string) && isPresent(record.get(field))) {
+      record.addError(
+        field,
+        `${field} must be empty when ${conditionField} is ${describeValues(
+          values
+        )}`
+      )
+    }
+  }
@@ -0,0 +1,149 @@
+import { Sheet, Workbook } from '@flatfile/configure'
+
+import { SmartDateField } from '../SmartDateField'
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { RecordRulesRecordCompute } from './record-rules-record-compute'
+import {
+  ageBetween,
+  notAfter,
+  notInFuture,
+  onOrAfter,
+} from './date-rules-record-compute'
+
+const now = () => new Date('2023-06-01T00:00:00.000Z')
+
+const DateRulesSheet = new Sheet(
+  'DateRulesSheet',
+  {
+    DateOfBirth: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+    EmploymentDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+    TerminationDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+    SeniorityDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+  },
+  {
+    recordCompute: RecordRulesRecordCompute([
+      onOrAfter('TerminationDate', 'EmploymentDate'),
+      ageBetween('DateOfBirth', 'EmploymentDate', { minAge: 14, maxAge: 100 }),
+      notAfter('SeniorityDate', 'EmploymentDate'),
+      notInFuture(['EmploymentDate', 'TerminationDate'], {
+        horizonDays: 30,
+        now,
+      }),
+    ]),
+  }
+)
+
+const DateRulesBook = new Workbook({
+  name: 'DateRulesBook',
+  namespace: 'test',
+  sheets: { DateRulesSheet },
+})
+
+const validRow = {
+  DateOfBirth: '1990-03-15',
+  EmploymentDate: '2015-01-05',
+  TerminationDate: '2020-12-31',
+  SeniorityDate: '2014-06-01',
+}
+
+describe('date rules ->', () => {
+  const testSheet = new SheetTester(DateRulesBook, 'DateRulesSheet')
+
+  test('a consistent record has no messages', async () => {
+    expect(await testSheet.testMessage(validRow)).toEqual([])
+  })
+
+  test('termination must be on or after employment', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      TerminationDate: '2014-12-31',
+    })
+    const message = 'TerminationDate must be on or after EmploymentDate'
+    expect(
+      matchSingleMessage(messages, 'TerminationDate', message, 'error')
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(messages, 'EmploymentDate', message, 'error')
+    ).toBeTruthy()
+  })
+
+  test('age at hire must be within the working-age range', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      DateOfBirth: '2001-01-06',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'DateOfBirth',
+        'DateOfBirth gives an age of 13 at EmploymentDate, which must be between 14 and 100',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('seniority must not be after employment', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      SeniorityDate: '2016-01-01',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'SeniorityDate',
+        'SeniorityDate must not be after EmploymentDate',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('dates beyond the horizon are errors', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      TerminationDate: '2023-06-20',
+    })
+    expect(matchSingleMessage(messages, 'TerminationDate')).toBeFalsy()
+
+    const futureMessages = await testSheet.testMessage({
+      ...validRow,
+      TerminationDate: '2023-08-01',
+    })
+    expect(
+      matchSingleMessage(
+        futureMessages,
+        'TerminationDate',
+        'TerminationDate must not be more than 30 days in the future',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('allowAfter permits a later seniority date', async () => {
+    const AllowAfterSheet = new Sheet(
+      'AllowAfterSheet',
+      {
+        EmploymentDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+        SeniorityDate: SmartDateField({ formatString: 'yyyy-MM-dd' }),
+      },
+      {
+        recordCompute: RecordRulesRecordCompute([
+          notAfter('SeniorityDate', 'EmploymentDate', { allowAfter: true }),
+        ]),
+      }
+    )
+    const allowAfterSheet = new SheetTester(
+      new Workbook({
+        name: 'AllowAfterBook',
+        namespace: 'test',
+        sheets: { AllowAfterSheet },
+      }),
+      'AllowAfterSheet'
+    )
+    expect(
+      await allowAfterSheet.testMessage({
+        EmploymentDate: '2015-01-05',
+        SeniorityDate: '2016-01-01',
+      })
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,100 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { RecordRule } from './record-rules-record-compute'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// the Date cast by SmartDateField, fields that are empty or failed to cast are
+// skipped, their own field errors already explain the problem
+const getDate = (record: FlatfileRecord, field: string): Date | undefined => {
+  const value: unknown = record.get(field)
+  return _.isDate(value) && !isNaN(value.getTime()) ? value : undefined
+}
+
+const yearsBetween = (from: Date, to: Date): number => {
+  const years = to.getUTCFullYear() - from.getUTCFullYear()
+  const beforeAnniversary =
+    to.getUTCMonth() < from.getUTCMonth() ||
+    (to.getUTCMonth() === from.getUTCMonth() &&
+      to.getUTCDate() < from.getUTCDate())
+  return beforeAnniversary ? years - 1 : years
+}
+
+/**
+ * field must be on or after other, e.g. a termination after employment.
+ */
+export const onOrAfter =
+  (field: string, other: string): RecordRule =>
+  (record) => {
+    const [date, otherDate] = [getDate(record, field), getDate(record, other)]
+    if (date && otherDate && date < otherDate) {
+      record.addError([field, other], `${field} must be on or after ${other}`)
+    }
+  }
+
+/**
+ * field must not be after other, unless allowAfter is set.
+ */
+export const notAfter =
+  (
+    field: string,
+    other: string,
+    { allowAfter = false }: { allowAfter?: boolean } = {}
+  ): RecordRule =>
+  (record) => {
+    const [date, otherDate] = [getDate(record, field), getDate(record, other)]
+    if (!allowAfter && date && otherDate && date > otherDate) {
+      record.addError([field, other], `${field} must not be after ${other}`)
+    }
+  }
+
+/**
+ * The age given by a birth date must be within [minAge, maxAge] years on
+ * the date in atField, e.g. a working age at the employment date.
+ */
+export const ageBetween =
+  (
+    birthField: string,
+    atField: string,
+    { minAge, maxAge }: { minAge: number; maxAge: number }
+  ): RecordRule =>
+  (record) => {
+    const [birth, at] = [getDate(record, birthField), getDate(record, atField)]
+    if (!birth || !at) {
+      return
+    }
+    const age = yearsBetween(birth, at)
+    if (age < minAge || age > maxAge) {
+      record.addError(
+        [birthField, atField],
+        `${birthField} gives an age of ${age} at ${atField}, which must be between ${minAge} and ${maxAge}`
+      )
+    }
+  }
+
+/**
+ * None of the fields may be more than horizonDays after today.
+ */
+export const notInFuture =
+  (
+    fields: string[],
+    {
+      horizonDays = 0,
+      now = () => new Date(),
+    }: { horizonDays?: number; now?: () => Date } = {}
+  ): RecordRule =>
+  (record) => {
+    const limit = new Date(now().getTime() + horizonDays * MS_PER_DAY)
+    fields.forEach((field) => {
+      const date = getDate(record, field)
+      if (date && date > limit) {
+        record.addError(
+          field,
+          horizonDays === 0
+            ? `${field} must not be in the future`
+            : `${field} must not be more than ${horizonDays} days in the future`
+        )
+      }
+    })
+  }
@@ -0,0 +1,249 @@
+import { Sheet, TextField, Workbook } from '@flatfile/configure'
+import { FlatfileRecords, FlatfileSession, IPayload } from '@flatfile/hooks'
+
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import {
+  ApiReferenceValueSource,
+  LookupRecordsCompute,
+  ReferenceApi,
+  ReferenceValues,
+  closestMatch,
+} from './lookup-records-compute'
+
+// every test gets its own reference values, so none depends on another
+const makeLookupBook = () => {
+  const referenceValues = new ReferenceValues()
+
+  const EmploymentTypes = new Sheet(
+    'EmploymentTypes',
+    { Name: TextField({ required: true }) },
+    {
+      batchRecordsCompute: referenceValues.collect('EmploymentTypes', ['Name']),
+    }
+  )
+
+  const Employees = new Sheet(
+    'Employees',
+    { EmploymentType: TextField() },
+    {
+      batchRecordsCompute: LookupRecordsCompute(
+        [
+          {
+            field: 'EmploymentType',
+            sheetKey: 'EmploymentTypes',
+            foreignKey: 'Name',
+          },
+        ],
+        referenceValues.source
+      ),
+    }
+  )
+
+  const book = new Workbook({
+    name: 'LookupBook',
+    namespace: 'test',
+    sheets: { EmploymentTypes, Employees },
+  })
+  return { book, referenceValues }
+}
+
+const employmentTypes = [
+  { Name: 'Full Time' },
+  { Name: 'Part Time' },
+  { Name: 'Contractor' },
+]
+
+describe('closestMatch ->', () => {
+  test('suggests the nearest candidate ignoring case', () => {
+    const candidates = ['Full Time', 'Part Time', 'Contractor']
+    expect(closestMatch('contracter', candidates)).toBe('Contractor')
+    expect(closestMatch('PART TIME', candidates)).toBe('Part Time')
+    expect(closestMatch('Seasonal', candidates)).toBeUndefined()
+  })
+})
+
+describe('LookupRecordsCompute ->', () => {
+  test('errors until the reference sheet is loaded', async () => {
+    const { book } = makeLookupBook()
+    const employees = new SheetTester(book, 'Employees')
+    const messages = await employees.testMessage({ EmploymentType: 'Intern' })
+    expect(
+      matchSingleMessage(
+        messages,
+        'EmploymentType',
+        "'Intern' can't be checked until the sheet [EmploymentTypes] is loaded, load it and process this sheet again",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('checks values against the reference sheet', async () => {
+    const { book } = makeLookupBook()
+    await new SheetTester(book, 'EmploymentTypes').testRecords(employmentTypes)
+
+    const [matched, suggested, unmatched] = await new SheetTester(
+      book,
+      'Employees'
+    ).testMessages([
+      { EmploymentType: 'Full Time' },
+      { EmploymentType: 'Contracter' },
+      { EmploymentType: 'Seasonal' },
+    ])
+    expect(matched).toEqual([])
+    expect(
+      matchSingleMessage(
+        suggested,
+        'EmploymentType',
+        "'Contracter' is not in the [Name] column of the sheet [EmploymentTypes], did you mean 'Contractor'?",
+        'error'
+      )
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(
+        unmatched,
+        'EmploymentType',
+        "'Seasonal' is not in the [Name] column of the sheet [EmploymentTypes]",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('values of one workbook are not valid in another', async () => {
+    const { book } = makeLookupBook()
+    await new SheetTester(book, 'EmploymentTypes', 'workbook-a').testRecords(
+      employmentTypes
+    )
+
+    const inA = new SheetTester(book, 'Employees', 'workbook-a')
+    expect(await inA.testMessage({ EmploymentType: 'Full Time' })).toEqual([])
+    const inB = new SheetTester(book, 'Employees', 'workbook-b')
+    expect(
+      matchSingleMessage(
+        await inB.testMessage({ EmploymentType: 'Full Time' }),
+        'EmploymentType',
+        "'Full Time' can't be checked until the sheet [EmploymentTypes] is loaded, load it and process this sheet again",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('each batch only updates the rows it holds', async () => {
+    const { book } = makeLookupBook()
+    const types = new SheetTester(book, 'EmploymentTypes')
+    const employees = new SheetTester(book, 'Employees')
+    await types.testRecords(employmentTypes)
+
+    // an edit in review only sends the edited first row
+    await types.testRecords([{ Name: 'Full-Time' }])
+    const [edited, kept] = await employees.testMessages([
+      { EmploymentType: 'Full Time' },
+      { EmploymentType: 'Contractor' },
+    ])
+    expect(
+      matchSingleMessage(
+        edited,
+        'EmploymentType',
+        "'Full Time' is not in the [Name] column of the sheet [EmploymentTypes], did you mean 'Full-Time'?",
+        'error'
+      )
+    ).toBeTruthy()
+    expect(kept).toEqual([])
+  })
+
+  test('deleted reference rows stop being valid', async () => {
+    const { book, referenceValues } = makeLookupBook()
+    const employees = new SheetTester(book, 'Employees')
+    await new SheetTester(book, 'EmploymentTypes').testRecords(employmentTypes)
+    expect(
+      await employees.testMessage({ EmploymentType: 'Contractor' })
+    ).toEqual([])
+
+    referenceValues.forget('EmploymentTypes', [2])
+    expect(
+      matchSingleMessage(
+        await employees.testMessage({ EmploymentType: 'Contractor' }),
+        'EmploymentType',
+        "'Contractor' is not in the [Name] column of the sheet [EmploymentTypes]",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('only the most recent workbooks are kept', async () => {
+    const referenceValues = new ReferenceValues(2)
+    const collect = referenceValues.collect('EmploymentTypes', ['Name'])
+    const session = (workbookId: string) =>
+      new FlatfileSession({ workbookId } as IPayload)
+    const records = new FlatfileRecords([
+      { rawData: { Name: 'Full Time' }, rowId: 1 },
+    ])
+
+    await collect(records, session('a'))
+    await collect(records, session('b'))
+    await collect(records, session('c'))
+    expect(
+      referenceValues.source('EmploymentTypes', 'Name', session('a'))
+    ).toBeUndefined()
+    expect(
+      referenceValues.source('EmploymentTypes', 'Name', session('c'))
+    ).toEqual(['Full Time'])
+  })
+})
+
+describe('ApiReferenceValueSource ->', () => {
+  const records = (pageNumber: number | undefined, names: string[]) =>
+    names.map((name, index) => ({
+      id: `${pageNumber}-${index}`,
+      workbookId: 'wb',
+      sheetId: 'sheet-types',
+      values: { Name: { value: name } },
+    }))
+
+  const api: ReferenceApi = {
+    getSheets: async () => ({
+      data: [
+        {
+          id: 'sheet-types',
+          name: 'Employment Types',
+          config: {
+            name: 'Employment Types',
+            slug: 'test/EmploymentTypes',
+            fields: [],
+          },
+        },
+      ],
+    }),
+    getRecords: async ({ pageNumber }) => ({
+      data: {
+        success: true,
+        records: records(
+          pageNumber,
+          pageNumber === 1 ? Array(1000).fill('Full Time') : ['Part Time', '']
+        ),
+      },
+    }),
+  }
+  const fallback = () => ['from fallback']
+  const source = ApiReferenceValueSource(() => api, fallback)
+
+  test('reads every page of the reference sheet for sheet events', async () => {
+    const event = { workbookId: 'wb', sheetId: 'sheet-employees' }
+    expect(
+      await source(
+        'EmploymentTypes',
+        'Name',
+        event as unknown as FlatfileSession
+      )
+    ).toEqual(['Full Time', 'Part Time'])
+    expect(
+      await source('Suppliers', 'Code', event as unknown as FlatfileSession)
+    ).toBeUndefined()
+  })
+
+  test('other sessions use the fallback', async () => {
+    const session = new FlatfileSession({ workbookId: 'wb' } as IPayload)
+    expect(await source('EmploymentTypes', 'Name', session)).toEqual([
+      'from fallback',
+    ])
+  })
+})
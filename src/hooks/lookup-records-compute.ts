@@ -0,0 +1,288 @@
+import _ from 'lodash'
+import { DefaultApi } from '@flatfile/api'
+import {
+  FlatfileRecord,
+  FlatfileRecords,
+  FlatfileSession,
+} from '@flatfile/hooks'
+
+export interface Lookup {
+  // field on the sheet being validated
+  field: string
+  // key of the sheet holding the reference values in the workbook
+  sheetKey: string
+  // column of that sheet the values must appear in
+  foreignKey: string
+  // suggest the closest reference value, defaults to true
+  suggest?: boolean
+}
+
+/**
+ * Gives the values of a reference sheet's key column, undefined when the
+ * sheet hasn't been loaded into the workbook yet.
+ */
+export type ReferenceValueSource = (
+  sheetKey: string,
+  foreignKey: string,
+  session?: FlatfileSession
+) => Promise<string[] | undefined> | string[] | undefined
+
+/**
+ * Levenshtein distance between two strings, used to suggest the closest
+ * reference value for an unmatched lookup.
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = _.range(b.length + 1)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitution
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Finds the candidate closest to value, ignoring case. Candidates further
+ * away than a third of the value's length are not considered a match.
+ *
+ * @param {string} value - the unmatched value
+ * @param {Array<string>} candidates - the values value should have been one of
+ * @return {string | undefined} the closest candidate, undefined when none are close
+ */
+export const closestMatch = (
+  value: string,
+  candidates: string[]
+): string | undefined => {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3))
+  const scored = candidates.map(
+    (candidate) =>
+      [
+        candidate,
+        editDistance(value.toLowerCase(), candidate.toLowerCase()),
+      ] as const
+  )
+  const best = _.minBy(scored, ([, distance]) => distance)
+  if (best === undefined || best[1] > maxDistance) {
+    return undefined
+  }
+  return best[0]
+}
+
+/**
+ * Collects the values of reference sheets as they are processed, so they
+ * can be used as a ReferenceValueSource for LookupRecordsCompute.
+ *
+ * Batches only hold the records that were just created or updated, so values
+ * are kept per row and each batch updates the rows it holds, a row's old
+ * value stops being valid once the row is edited or blanked. Deleted rows are
+ * dropped with forget. Values are kept per workbook, for the maxWorkbooks
+ * most recently collected workbooks, in the memory of the process collecting
+ * them, see ApiReferenceValueSource for workbooks handled by several
+ * processes.
+ */
+export class ReferenceValues {
+  // workbookId => sheetKey/foreignKey => rowId => value
+  private workbooks = new Map<string, Record<string, Record<string, string>>>()
+
+  constructor(private readonly maxWorkbooks = 100) {}
+
+  private static key(sheetKey: string, foreignKey: string): string {
+    return `${sheetKey}/${foreignKey}`
+  }
+
+  private workbook(session?: FlatfileSession) {
+    const workbookId = session?.workbookId ?? ''
+    const values = this.workbooks.get(workbookId) ?? {}
+    // re-inserted so the least recently collected workbook is dropped first
+    this.workbooks.delete(workbookId)
+    this.workbooks.set(workbookId, values)
+    if (this.workbooks.size > this.maxWorkbooks) {
+      this.workbooks.delete(this.workbooks.keys().next().value)
+    }
+    return values
+  }
+
+  public collect(sheetKey: string, foreignKeys: string[]) {
+    return async (
+      records: FlatfileRecords<any>,
+      session?: FlatfileSession
+    ): Promise<void> => {
+      const workbook = this.workbook(session)
+      foreignKeys.forEach((foreignKey) => {
+        const key = ReferenceValues.key(sheetKey, foreignKey)
+        const rows = (workbook[key] = workbook[key] ?? {})
+        records.records.forEach((record: FlatfileRecord) => {
+          const value = record.get(foreignKey)
+          if (_.isNil(value) || value === '') {
+            delete rows[record.rowId]
+          } else {
+            rows[record.rowId] = String(value)
+          }
+        })
+      })
+    }
+  }
+
+  /**
+   * Drops the values of rows deleted from a reference sheet.
+   */
+  public forget(
+    sheetKey: string,
+    rowIds: Array<string | number>,
+    session?: FlatfileSession
+  ): void {
+    const workbook = this.workbooks.get(session?.workbookId ?? '') ?? {}
+    _.keys(workbook)
+      .filter((key) => key.startsWith(`${sheetKey}/`))
+      .forEach((key) => rowIds.forEach((rowId) => delete workbook[key][rowId]))
+  }
+
+  public source: ReferenceValueSource = (sheetKey, foreignKey, session) => {
+    const rows = this.workbooks.get(session?.workbookId ?? '')?.[
+      ReferenceValues.key(sheetKey, foreignKey)
+    ]
+    return rows === undefined ? undefined : _.uniq(_.values(rows))
+  }
+}
+
+/**
+ * The calls ApiReferenceValueSource and readSheetColumn make to the Flatfile
+ * API.
+ */
+export type ReferenceApi = Pick<DefaultApi, 'getSheets' | 'getRecords'>
+
+const API_PAGE_SIZE = 1000
+
+/**
+ * Reads a column of a sheet through the Flatfile API, page by page.
+ *
+ * @param {ReferenceApi} api - the API of the sheet
+ * @param {string} workbookId - the workbook of the sheet
+ * @param {string} sheetId - the sheet to read
+ * @param {string} field - the column to read
+ * @return {Record<string, string>} the non blank values of the column by record id
+ */
+export const readSheetColumn = async (
+  api: ReferenceApi,
+  workbookId: string,
+  sheetId: string,
+  field: string
+): Promise<Record<string, string>> => {
+  const values: Record<string, string> = {}
+  for (let pageNumber = 1; ; pageNumber++) {
+    const records =
+      (
+        await api.getRecords({
+          workbookId,
+          sheetId,
+          pageSize: API_PAGE_SIZE,
+          pageNumber,
+          includeCounts: false,
+        })
+      ).data?.records ?? []
+    records.forEach(({ id, values: row }) => {
+      const value = row[field]?.value
+      if (!_.isNil(value) && value !== '') {
+        values[id] = String(value)
+      }
+    })
+    if (records.length < API_PAGE_SIZE) {
+      return values
+    }
+  }
+}
+
+/**
+ * Builds a ReferenceValueSource that reads the whole reference sheet through
+ * the Flatfile API each time a lookup runs, so every chunk, edit and deletion
+ * of the sheet is seen whichever process handled it. Only sessions of sheet
+ * events carry a sheetId and can be read this way, other sessions, such as
+ * legacy data hooks and SheetTester, use fallback.
+ *
+ * @example
+ * const source = ApiReferenceValueSource(() => Employees.api, references.source)
+ */
+export const ApiReferenceValueSource =
+  (
+    api: () => ReferenceApi,
+    fallback: ReferenceValueSource
+  ): ReferenceValueSource =>
+  async (sheetKey, foreignKey, session) => {
+    const context = session as { workbookId?: string; sheetId?: string }
+    if (!context?.workbookId || !context.sheetId) {
+      return fallback(sheetKey, foreignKey, session)
+    }
+    const { workbookId } = context
+
+    const sheets = (await api().getSheets({ workbookId })).data ?? []
+    const sheet = sheets.find(
+      ({ config }) =>
+        config?.slug === sheetKey || !!config?.slug?.endsWith(`/${sheetKey}`)
+    )
+    if (sheet === undefined) {
+      return undefined
+    }
+
+    return _.uniq(
+      _.values(await readSheetColumn(api(), workbookId, sheet.id, foreignKey))
+    )
+  }
+
+/**
+ * Builds a batchRecordsCompute that checks every lookup field holds a value
+ * from the key column of its reference sheet, suggesting the closest value
+ * when it doesn't.
+ *
+ * @example
+ * const references = new ReferenceValues()
+ *
+ * const lookupCompute = LookupRecordsCompute(
+ *   [{ field: 'EmploymentType', sheetKey: 'EmploymentTypes', foreignKey: 'Name' }],
+ *   references.source
+ * )
+ */
+export const LookupRecordsCompute = (
+  lookups: Lookup[],
+  source: ReferenceValueSource
+) => {
+  return async (
+    records: FlatfileRecords<any>,
+    session?: FlatfileSession
+  ): Promise<void> => {
+    for (const { field, sheetKey, foreignKey, suggest = true } of lookups) {
+      const referenceValues = await source(sheetKey, foreignKey, session)
+      const known = new Set(referenceValues)
+
+      records.records.forEach((record: FlatfileRecord) => {
+        const value = record.get(field)
+        if (_.isNil(value) || value === '' || known.has(String(value))) {
+          return
+        }
+
+        if (referenceValues === undefined) {
+          record.addError(
+            field,
+            `'${value}' can't be checked until the sheet [${sheetKey}] is loaded, load it and process this sheet again`
+          )
+          return
+        }
+
+        const suggestion = suggest
+          ? closestMatch(String(value), referenceValues)
+          : undefined
+        record.addError(
+          field,
+          `'${value}' is not in the [${foreignKey}] column of the sheet [${sheetKey}]` +
+            (suggestion ? `, did you mean '${suggestion}'?` : '')
+        )
+      })
+    }
+  }
+}
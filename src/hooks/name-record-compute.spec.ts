@@ -0,0 +1,120 @@
+import { Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { NameRecordCompute, parseFullName } from './name-record-compute'
+
+const nameFields = {
+  firstNameField: 'FirstName',
+  lastNameField: 'LastName',
+  salutationField: 'Salutation',
+}
+
+const NameSheet = new Sheet(
+  'NameSheet',
+  {
+    FirstName: TextField(),
+    LastName: TextField(),
+    Salutation: TextField(),
+  },
+  {
+    recordCompute: (record) => {
+      NameRecordCompute({ fullNameField: 'FirstName', ...nameFields })(record)
+      NameRecordCompute({ fullNameField: 'LastName', ...nameFields })(record)
+    },
+  }
+)
+
+const NameBook = new Workbook({
+  name: 'NameBook',
+  namespace: 'test',
+  sheets: { NameSheet },
+})
+
+describe('parseFullName ->', () => {
+  test('salutations, middle names and suffixes', () => {
+    expect(parseFullName('Dr. Jane Q. Smith Jr.')).toEqual({
+      salutation: 'Dr.',
+      firstName: 'Jane',
+      middleName: 'Q.',
+      lastName: 'Smith',
+      suffix: 'Jr.',
+    })
+    expect(parseFullName('Jane Smith, PhD')).toEqual({
+      firstName: 'Jane',
+      lastName: 'Smith',
+      suffix: 'PhD',
+    })
+  })
+
+  test('last name first', () => {
+    expect(parseFullName('Smith, Jane')).toEqual({
+      firstName: 'Jane',
+      lastName: 'Smith',
+    })
+    expect(parseFullName('van der Berg, Jan')).toEqual({
+      firstName: 'Jan',
+      lastName: 'van der Berg',
+    })
+  })
+
+  test('surname particles', () => {
+    expect(parseFullName('Jan van der Berg')).toMatchObject({
+      firstName: 'Jan',
+      lastName: 'van der Berg',
+    })
+    expect(parseFullName('Maria de la Cruz')).toMatchObject({
+      firstName: 'Maria',
+      lastName: 'de la Cruz',
+    })
+  })
+
+  test('names that can not be split', () => {
+    expect(parseFullName('Madonna')).toBeUndefined()
+    expect(parseFullName('Mr. Smith')).toBeUndefined()
+  })
+})
+
+describe('NameRecordCompute ->', () => {
+  const testSheet = new SheetTester(NameBook, 'NameSheet')
+
+  test('splits a full name in FirstName', async () => {
+    const record = {
+      FirstName: 'Dr. Jane Q. Smith Jr.',
+      LastName: '',
+      Salutation: '',
+    }
+    const res = await testSheet.testRecord(record)
+    expect(res).toMatchObject({
+      FirstName: 'Jane Q.',
+      LastName: 'Smith Jr.',
+      Salutation: 'Dr.',
+    })
+    const messages = await testSheet.testMessage(record)
+    expect(
+      matchSingleMessage(
+        messages,
+        'FirstName',
+        "'Dr. Jane Q. Smith Jr.' was split into FirstName 'Jane Q.', LastName 'Smith Jr.', Salutation 'Dr.'",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+
+  test('splits a last name first full name in LastName', async () => {
+    const res = await testSheet.testRecord({
+      FirstName: '',
+      LastName: 'de la Cruz, Maria',
+      Salutation: '',
+    })
+    expect(res).toMatchObject({ FirstName: 'Maria', LastName: 'de la Cruz' })
+  })
+
+  test('leaves names that are already split', async () => {
+    const res = await testSheet.testRecord({
+      FirstName: 'Mary Ann',
+      LastName: 'Smith',
+      Salutation: '',
+    })
+    expect(res).toMatchObject({ FirstName: 'Mary Ann', LastName: 'Smith' })
+  })
+})
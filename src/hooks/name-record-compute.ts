@@ -0,0 +1,249 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+export interface ParsedName {
+  salutation?: string
+  firstName: string
+  middleName?: string
+  lastName: string
+  suffix?: string
+}
+
+export interface NameRecordComputeOptions {
+  // field holding the full name, it may also be firstNameField or lastNameField
+  fullNameField: string
+  firstNameField: string
+  lastNameField: string
+  salutationField?: string
+  // without a middleNameField middle names are kept with the first name
+  middleNameField?: string
+  // without a suffixField suffixes are kept with the last name
+  suffixField?: string
+}
+
+const Salutations = [
+  'mr',
+  'mrs',
+  'ms',
+  'miss',
+  'mx',
+  'dr',
+  'prof',
+  'professor',
+  'sir',
+  'dame',
+  'rev',
+  'revd',
+  'hon',
+  'fr',
+  'capt',
+  'sr',
+  'sra',
+  'mme',
+  'mlle',
+  'herr',
+  'frau',
+]
+
+const Suffixes = [
+  'jr',
+  'sr',
+  'ii',
+  'iii',
+  'iv',
+  'v',
+  'phd',
+  'md',
+  'dds',
+  'esq',
+  'cpa',
+  'rn',
+  'mba',
+]
+
+// lowercase words that belong to the surname that follows them
+const SurnameParticles = [
+  'van',
+  'von',
+  'der',
+  'den',
+  'de',
+  'del',
+  'della',
+  'di',
+  'da',
+  'dos',
+  'das',
+  'du',
+  'la',
+  'le',
+  'st',
+  'ter',
+  'ten',
+  'bin',
+  'ibn',
+  'al',
+]
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[.,]/g, '')
+
+const isSalutation = (word: string): boolean =>
+  Salutations.includes(normalizeWord(word))
+const isSuffix = (word: string): boolean =>
+  Suffixes.includes(normalizeWord(word))
+const isParticle = (word: string): boolean =>
+  SurnameParticles.includes(normalizeWord(word))
+
+const joinWords = (words: string[]): string | undefined =>
+  words.length === 0 ? undefined : words.join(' ')
+
+/**
+ * Parses a person's full name, written first name first ('Dr. Jane Q. Smith
+ * Jr.') or last name first ('Smith, Jane'). Salutations and suffixes are
+ * recognized, and particles such as 'van der' or 'de la' are kept with the
+ * last name.
+ *
+ * @param {string} raw - the full name to parse
+ * @return {ParsedName | undefined} the parts of the name, undefined when raw doesn't have both a first and last name
+ */
+export const parseFullName = (raw: string): ParsedName | undefined => {
+  const commaParts = raw
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+
+  const suffixes: string[] = []
+  // 'Jane Smith, Jr.' and 'Smith, Jane, PhD' keep suffixes after a comma
+  while (
+    commaParts.length > 1 &&
+    (_.last(commaParts) as string).split(/\s+/).every(isSuffix)
+  ) {
+    suffixes.unshift(commaParts.pop() as string)
+  }
+  if (commaParts.length > 2) {
+    return undefined
+  }
+
+  let words: string[]
+  let lastNameWords: string[] = []
+  if (commaParts.length === 2) {
+    lastNameWords = commaParts[0].split(/\s+/)
+    words = commaParts[1].split(/\s+/)
+  } else {
+    words = (commaParts[0] ?? '').split(/\s+/).filter((word) => word !== '')
+  }
+
+  const salutations: string[] = []
+  while (words.length > 1 && isSalutation(words[0])) {
+    salutations.push(words.shift() as string)
+  }
+  while (words.length > 1 && isSuffix(_.last(words) as string)) {
+    suffixes.unshift(words.pop() as string)
+  }
+
+  if (lastNameWords.length === 0) {
+    if (words.length < 2) {
+      return undefined
+    }
+    lastNameWords = [words.pop() as string]
+    while (words.length > 1 && isParticle(_.last(words) as string)) {
+      lastNameWords.unshift(words.pop() as string)
+    }
+  }
+  if (words.length === 0) {
+    return undefined
+  }
+
+  const parsed: ParsedName = {
+    salutation: joinWords(salutations),
+    firstName: words[0],
+    middleName: joinWords(words.slice(1)),
+    lastName: lastNameWords.join(' '),
+    suffix: joinWords(suffixes),
+  }
+  return _.omitBy(parsed, _.isUndefined) as ParsedName
+}
+
+/**
+ * Builds a recordCompute that splits a full name into its parts. It only
+ * runs when the full name has more than one word and all of the other name
+ * fields are empty, and it notes the split in an info message.
+ *
+ * @example
+ * const nameCompute = NameRecordCompute({
+ *   fullNameField: 'FirstName',
+ *   firstNameField: 'FirstName',
+ *   lastNameField: 'LastName',
+ *   salutationField: 'Salutation',
+ * })
+ */
+export const NameRecordCompute = ({
+  fullNameField,
+  firstNameField,
+  lastNameField,
+  salutationField,
+  middleNameField,
+  suffixField,
+}: NameRecordComputeOptions) => {
+  const targetFields = _.uniq(
+    _.compact([
+      firstNameField,
+      lastNameField,
+      salutationField,
+      middleNameField,
+      suffixField,
+    ])
+  )
+
+  return (record: FlatfileRecord): void => {
+    const raw = record.get(fullNameField)
+    if (!_.isString(raw) || raw.trim() === '') {
+      return
+    }
+    const targetsEmpty = targetFields
+      .filter((field) => field !== fullNameField)
+      .every((field) => {
+        const value = record.get(field)
+        return _.isNil(value) || value === ''
+      })
+    if (!targetsEmpty) {
+      return
+    }
+
+    const parsed = parseFullName(raw)
+    if (parsed === undefined) {
+      return
+    }
+
+    const { salutation, firstName, middleName, lastName, suffix } = parsed
+    const values: Record<string, string | undefined> = {
+      [firstNameField]: middleNameField
+        ? firstName
+        : joinWords(_.compact([firstName, middleName])),
+      [lastNameField]: suffixField
+        ? lastName
+        : joinWords(_.compact([lastName, suffix])),
+    }
+    if (salutationField) {
+      values[salutationField] = salutation
+    }
+    if (middleNameField) {
+      values[middleNameField] = middleName
+    }
+    if (suffixField) {
+      values[suffixField] = suffix
+    }
+
+    const derived = _.toPairs(values).filter(
+      (pair): pair is [string, string] => pair[1] !== undefined
+    )
+    derived.forEach(([field, value]) => record.set(field, value))
+    record.addInfo(
+      fullNameField,
+      `'${raw}' was split into ${derived
+        .map(([field, value]) => `${field} '${value}'`)
+        .join(', ')}`
+    )
+  }
+}
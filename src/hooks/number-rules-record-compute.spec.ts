@@ -0,0 +1,93 @@
+import { NumberField, Sheet, Workbook } from '@flatfile/configure'
+
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { RecordRulesRecordCompute } from './record-rules-record-compute'
+import {
+  inRange,
+  nonNegativeInteger,
+  notGreaterThan,
+} from './number-rules-record-compute'
+
+const CapacitySheet = new Sheet(
+  'CapacitySheet',
+  {
+    MinDailyCapacity: NumberField(),
+    MaxDailyCapacity: NumberField(),
+    MaxWeeklyCapacity: NumberField(),
+    MaxCaseload: NumberField(),
+  },
+  {
+    recordCompute: RecordRulesRecordCompute([
+      notGreaterThan('MinDailyCapacity', 'MaxDailyCapacity'),
+      inRange(['MinDailyCapacity', 'MaxDailyCapacity'], { min: 0, max: 24 }),
+      notGreaterThan('MaxDailyCapacity', 'MaxWeeklyCapacity'),
+      nonNegativeInteger('MaxCaseload'),
+    ]),
+  }
+)
+
+const CapacityBook = new Workbook({
+  name: 'CapacityBook',
+  namespace: 'test',
+  sheets: { CapacitySheet },
+})
+
+const validRow = {
+  MinDailyCapacity: '4',
+  MaxDailyCapacity: '8',
+  MaxWeeklyCapacity: '40',
+  MaxCaseload: '12',
+}
+
+describe('number rules ->', () => {
+  const testSheet = new SheetTester(CapacityBook, 'CapacitySheet')
+
+  test('a consistent record has no messages', async () => {
+    expect(await testSheet.testMessage(validRow)).toEqual([])
+  })
+
+  test('min greater than max is an error on both fields', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      MinDailyCapacity: '10',
+    })
+    const message =
+      'MinDailyCapacity (10) must not be greater than MaxDailyCapacity (8)'
+    expect(
+      matchSingleMessage(messages, 'MinDailyCapacity', message, 'error')
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(messages, 'MaxDailyCapacity', message, 'error')
+    ).toBeTruthy()
+  })
+
+  test('values outside the range are errors', async () => {
+    const messages = await testSheet.testMessage({
+      ...validRow,
+      MaxDailyCapacity: '25',
+      MaxWeeklyCapacity: '60',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'MaxDailyCapacity',
+        'MaxDailyCapacity must be between 0 and 24',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('caseload must be a non-negative integer', async () => {
+    const [fraction, negative] = await testSheet.testMessages([
+      { ...validRow, MaxCaseload: '2.5' },
+      { ...validRow, MaxCaseload: '-1' },
+    ])
+    const message = 'MaxCaseload must be a whole number of 0 or more'
+    expect(
+      matchSingleMessage(fraction, 'MaxCaseload', message, 'error')
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(negative, 'MaxCaseload', message, 'error')
+    ).toBeTruthy()
+  })
+})
@@ -0,0 +1,58 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { RecordRule } from './record-rules-record-compute'
+
+// the number cast by NumberField, fields that are empty or failed to cast are
+// skipped
+const getNumber = (
+  record: FlatfileRecord,
+  field: string
+): number | undefined => {
+  const value = record.get(field)
+  return _.isNumber(value) && !isNaN(value) ? value : undefined
+}
+
+/**
+ * field must not be greater than other, e.g. a minimum and its maximum.
+ */
+export const notGreaterThan =
+  (field: string, other: string): RecordRule =>
+  (record) => {
+    const [value, otherValue] = [
+      getNumber(record, field),
+      getNumber(record, other),
+    ]
+    if (value !== undefined && otherValue !== undefined && value > otherValue) {
+      record.addError(
+        [field, other],
+        `${field} (${value}) must not be greater than ${other} (${otherValue})`
+      )
+    }
+  }
+
+/**
+ * Each of the fields must be within [min, max].
+ */
+export const inRange =
+  (fields: string[], { min, max }: { min: number; max: number }): RecordRule =>
+  (record) => {
+    fields.forEach((field) => {
+      const value = getNumber(record, field)
+      if (value !== undefined && (value < min || value > max)) {
+        record.addError(field, `${field} must be between ${min} and ${max}`)
+      }
+    })
+  }
+
+/**
+ * field must be a whole number of zero or more.
+ */
+export const nonNegativeInteger =
+  (field: string): RecordRule =>
+  (record) => {
+    const value = getNumber(record, field)
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      record.addError(field, `${field} must be a whole number of 0 or more`)
+    }
+  }
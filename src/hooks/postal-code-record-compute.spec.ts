@@ -0,0 +1,102 @@
+import { OptionField, Sheet, TextField, Workbook } from '@flatfile/configure'
+
+import { ListCountriesFragment } from '../fragments/countries'
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import {
+  PostalCodeRecordCompute,
+  normalizePostalCode,
+} from './postal-code-record-compute'
+
+const AddressSheet = new Sheet(
+  'AddressSheet',
+  {
+    PostalCode: TextField(),
+    Country: OptionField({ options: { ...ListCountriesFragment } }),
+  },
+  {
+    recordCompute: PostalCodeRecordCompute({
+      postalCodeField: 'PostalCode',
+      countryField: 'Country',
+    }),
+  }
+)
+
+const AddressBook = new Workbook({
+  name: 'AddressBook',
+  namespace: 'test',
+  sheets: { AddressSheet },
+})
+
+describe('normalizePostalCode ->', () => {
+  test.each(['M5V 2T6', 'm5v2t6', 'M5V-2T6', ' m 5 v  2 t 6 ', 'M5V  2T6'])(
+    'normalizes Canadian variant %p',
+    (raw) => {
+      expect(normalizePostalCode(raw, 'CA')).toBe('M5V 2T6')
+    }
+  )
+
+  test('normalizes other countries', () => {
+    expect(normalizePostalCode('12345', 'US')).toBe('12345')
+    expect(normalizePostalCode('123456789', 'US')).toBe('12345-6789')
+    expect(normalizePostalCode('sw1a1aa', 'GB')).toBe('SW1A 1AA')
+    expect(normalizePostalCode('M1 1AE', 'GB')).toBe('M1 1AE')
+    expect(normalizePostalCode('1234ab', 'NL')).toBe('1234 AB')
+    expect(normalizePostalCode('1000001', 'JP')).toBe('100-0001')
+  })
+
+  test('rejects values that do not match the country format', () => {
+    expect(normalizePostalCode('12345', 'CA')).toBeUndefined()
+    expect(normalizePostalCode('D5V 2T6', 'CA')).toBeUndefined()
+    expect(normalizePostalCode('1234', 'US')).toBeUndefined()
+    expect(normalizePostalCode('M5V 2T6', 'US')).toBeUndefined()
+  })
+})
+
+describe('PostalCodeRecordCompute ->', () => {
+  const testSheet = new SheetTester(AddressBook, 'AddressSheet')
+
+  test('normalizes and reports the original value', async () => {
+    const row = { PostalCode: 'm5v2t6', Country: 'CA' }
+    const res = await testSheet.testRecord(row)
+    expect(res).toMatchObject({ PostalCode: 'M5V 2T6' })
+    const messages = await testSheet.testMessage(row)
+    expect(
+      matchSingleMessage(
+        messages,
+        'PostalCode',
+        "Value was normalized from 'm5v2t6' to 'M5V 2T6'",
+        'info'
+      )
+    ).toBeTruthy()
+  })
+
+  test('errors on an invalid postal code', async () => {
+    const messages = await testSheet.testMessage({
+      PostalCode: '90210',
+      Country: 'CA',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'PostalCode',
+        "'90210' is not a valid postal code for country 'CA'",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('warns for unknown countries', async () => {
+    const messages = await testSheet.testMessage({
+      PostalCode: '00100',
+      Country: 'KE',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'PostalCode',
+        "No postal code format is known for country 'KE', '00100' was not validated",
+        'warn'
+      )
+    ).toBeTruthy()
+  })
+})
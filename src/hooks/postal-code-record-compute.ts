@@ -0,0 +1,144 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+export interface PostalCodeFormat {
+  // tested against the value once whitespace and hyphens are removed
+  pattern: RegExp
+  // rebuilds the canonical spacing from the compacted value
+  format: (compact: string) => string
+}
+
+const splitAt =
+  (index: number, separator = ' ') =>
+  (compact: string): string =>
+    `${compact.slice(0, index)}${separator}${compact.slice(index)}`
+
+const splitFromEnd =
+  (length: number, separator = ' ') =>
+  (compact: string): string =>
+    splitAt(compact.length - length, separator)(compact)
+
+/**
+ * Postal code formats keyed by the ISO 3166 country code used in
+ * ListCountriesFragment.
+ */
+export const PostalCodeFormats: Record<string, PostalCodeFormat> = {
+  AT: { pattern: /^\d{4}$/, format: _.identity },
+  AU: { pattern: /^\d{4}$/, format: _.identity },
+  BE: { pattern: /^\d{4}$/, format: _.identity },
+  BR: { pattern: /^\d{8}$/, format: splitAt(5, '-') },
+  CA: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    format: splitAt(3),
+  },
+  CH: { pattern: /^\d{4}$/, format: _.identity },
+  DE: { pattern: /^\d{5}$/, format: _.identity },
+  DK: { pattern: /^\d{4}$/, format: _.identity },
+  ES: { pattern: /^\d{5}$/, format: _.identity },
+  FR: { pattern: /^\d{5}$/, format: _.identity },
+  GB: {
+    pattern: /^([A-Z]{1,2}\d[A-Z\d]?|GIR)\d[A-Z]{2}$/,
+    format: splitFromEnd(3),
+  },
+  IE: { pattern: /^[A-Z]\d[\dW][A-Z\d]{4}$/, format: splitAt(3) },
+  IN: { pattern: /^[1-9]\d{5}$/, format: _.identity },
+  IT: { pattern: /^\d{5}$/, format: _.identity },
+  JP: { pattern: /^\d{7}$/, format: splitAt(3, '-') },
+  MX: { pattern: /^\d{5}$/, format: _.identity },
+  NL: { pattern: /^[1-9]\d{3}[A-Z]{2}$/, format: splitAt(4) },
+  NO: { pattern: /^\d{4}$/, format: _.identity },
+  NZ: { pattern: /^\d{4}$/, format: _.identity },
+  PL: { pattern: /^\d{5}$/, format: splitAt(2, '-') },
+  PT: { pattern: /^\d{7}$/, format: splitAt(4, '-') },
+  SE: { pattern: /^\d{5}$/, format: splitAt(3) },
+  US: {
+    pattern: /^\d{5}(\d{4})?$/,
+    format: (compact) =>
+      compact.length === 9 ? splitAt(5, '-')(compact) : compact,
+  },
+}
+
+/**
+ * Normalizes a postal code to the canonical spacing and case of a country.
+ *
+ * @param {string} raw - the postal code to normalize
+ * @param {string} country - ISO 3166 country code, a key of PostalCodeFormats
+ * @return {string | undefined} the normalized postal code, undefined when it doesn't match the country's format
+ */
+export const normalizePostalCode = (
+  raw: string,
+  country: string
+): string | undefined => {
+  const postalCodeFormat = PostalCodeFormats[country]
+  if (postalCodeFormat === undefined) {
+    return undefined
+  }
+
+  const compact = raw.toUpperCase().replace(/[\s-]/g, '')
+  if (!postalCodeFormat.pattern.test(compact)) {
+    return undefined
+  }
+  return postalCodeFormat.format(compact)
+}
+
+export interface PostalCodeRecordComputeOptions {
+  postalCodeField: string
+  countryField: string
+}
+
+/**
+ * Builds a recordCompute that checks a postal code field against the format
+ * of the country field of the same record, and normalizes its spacing and
+ * case.
+ *
+ * @example
+ * const postalCodeCompute = PostalCodeRecordCompute({
+ *   postalCodeField: 'PostalCode',
+ *   countryField: 'Country',
+ * })
+ */
+export const PostalCodeRecordCompute = ({
+  postalCodeField,
+  countryField,
+}: PostalCodeRecordComputeOptions) => {
+  return (record: FlatfileRecord): void => {
+    const raw = record.get(postalCodeField)
+    if (!_.isString(raw) || raw.trim() === '') {
+      return
+    }
+
+    const country = record.get(countryField)
+    if (!_.isString(country) || country === '') {
+      record.addWarning(
+        postalCodeField,
+        `'${raw}' could not be validated without a value in ${countryField}`
+      )
+      return
+    }
+
+    if (PostalCodeFormats[country] === undefined) {
+      record.addWarning(
+        postalCodeField,
+        `No postal code format is known for country '${country}', '${raw}' was not validated`
+      )
+      return
+    }
+
+    const normalized = normalizePostalCode(raw, country)
+    if (normalized === undefined) {
+      record.addError(
+        postalCodeField,
+        `'${raw}' is not a valid postal code for country '${country}'`
+      )
+      return
+    }
+
+    if (normalized !== raw) {
+      record.set(postalCodeField, normalized)
+      record.addInfo(
+        postalCodeField,
+        `Value was normalized from '${raw}' to '${normalized}'`
+      )
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import {
+  RecordRule,
+  RecordRulesRecordCompute,
+} from './record-rules-record-compute'
+
+describe('RecordRulesRecordCompute ->', () => {
+  test('the rules run in order on the same record', () => {
+    const calls: string[] = []
+    const rule =
+      (name: string): RecordRule =>
+      (record) => {
+        calls.push(`${name}:${record.get('Status')}`)
+        record.set('Status', name)
+      }
+    const record = new FlatfileRecord({
+      rawData: { Status: 'Active' },
+      rowId: 1,
+    })
+
+    RecordRulesRecordCompute([rule('first'), rule('second')])(record)
+
+    expect(calls).toEqual(['first:Active', 'second:first'])
+    expect(record.get('Status')).toBe('second')
+  })
+})
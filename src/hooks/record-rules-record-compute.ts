@@ -0,0 +1,24 @@
+import { FlatfileRecord } from '@flatfile/hooks'
+
+/**
+ * A RecordRule checks the values of a record and adds messages to the fields
+ * involved. Rule builders return RecordRules so that rules of any kind can be
+ * combined by RecordRulesRecordCompute.
+ */
+export type RecordRule = (record: FlatfileRecord) => void
+
+/**
+ * Combines RecordRules into a single recordCompute, the rules run in order.
+ *
+ * @example
+ * const employmentRules = RecordRulesRecordCompute([
+ *   onOrAfter('TerminationDate', 'EmploymentDate'),
+ *   requiredWhen('TerminationDate', 'Status', ['Terminated']),
+ *   notGreaterThan('MinDailyCapacity', 'MaxDailyCapacity'),
+ * ])
+ */
+export const RecordRulesRecordCompute = (rules: RecordRule[]) => {
+  return (record: FlatfileRecord): void => {
+    rules.forEach((rule) => rule(record))
+  }
+}
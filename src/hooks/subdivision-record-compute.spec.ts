@@ -0,0 +1,117 @@
+import { OptionField, Sheet, TextField, Workbook } from '@flatfile/configure'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { ListCountriesFragment } from '../fragments/countries'
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import {
+  SubdivisionRecordCompute,
+  findSubdivisionCode,
+} from './subdivision-record-compute'
+
+const AddressSheet = new Sheet(
+  'AddressSheet',
+  {
+    Province: TextField(),
+    Country: OptionField({ options: { ...ListCountriesFragment } }),
+  },
+  {
+    recordCompute: SubdivisionRecordCompute({
+      subdivisionField: 'Province',
+      countryField: 'Country',
+    }),
+  }
+)
+
+const AddressBook = new Workbook({
+  name: 'AddressBook',
+  namespace: 'test',
+  sheets: { AddressSheet },
+})
+
+describe('findSubdivisionCode ->', () => {
+  test('matches codes, partial codes and names', () => {
+    expect(findSubdivisionCode('CA-ON', 'CA')).toBe('CA-ON')
+    expect(findSubdivisionCode('on', 'CA')).toBe('CA-ON')
+    expect(findSubdivisionCode('Ontario', 'CA')).toBe('CA-ON')
+    expect(findSubdivisionCode('Québec', 'CA')).toBe('CA-QC')
+    expect(findSubdivisionCode('new york', 'US')).toBe('US-NY')
+  })
+
+  test('does not match subdivisions of other countries', () => {
+    expect(findSubdivisionCode('CA-ON', 'US')).toBeUndefined()
+    expect(findSubdivisionCode('Ontario', 'US')).toBeUndefined()
+    expect(findSubdivisionCode('ON', 'FR')).toBeUndefined()
+  })
+})
+
+describe('SubdivisionRecordCompute ->', () => {
+  const testSheet = new SheetTester(AddressBook, 'AddressSheet')
+
+  test.each([
+    ['Ontario', 'CA'],
+    ['ON', 'CA'],
+    ['ca-on', 'CA'],
+  ])('normalizes %s to the ISO3166-2 code', async (Province, Country) => {
+    const res = await testSheet.testRecord({ Province, Country })
+    expect(res).toMatchObject({ Province: 'CA-ON', Country: 'CA' })
+    const messages = await testSheet.testMessage({ Province, Country })
+    expect(
+      matchSingleMessage(
+        messages,
+        'Province',
+        `Value was normalized from '${Province}' to 'CA-ON'`,
+        'info'
+      )
+    ).toBeTruthy()
+  })
+
+  test('rejects subdivisions that belong to another country', async () => {
+    const messages = await testSheet.testMessage({
+      Province: 'ON',
+      Country: 'US',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'Province',
+        "'ON' is not a valid subdivision of country 'US'",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('warns when the country has no subdivision list', async () => {
+    const messages = await testSheet.testMessage({
+      Province: 'IDF',
+      Country: 'FR',
+    })
+    expect(
+      matchSingleMessage(messages, 'Province', undefined, 'warn')
+    ).toBeTruthy()
+  })
+
+  test('uses the code prefix when the country is empty', async () => {
+    const res = await testSheet.testRecord({ Province: 'US-TX', Country: '' })
+    expect(res).toMatchObject({ Province: 'US-TX' })
+    const messages = await testSheet.testMessage({
+      Province: 'Texas',
+      Country: '',
+    })
+    expect(
+      matchSingleMessage(messages, 'Province', undefined, 'warn')
+    ).toBeTruthy()
+  })
+
+  test('a blank country string is missing', () => {
+    const record = new FlatfileRecord({
+      rawData: { Province: 'US-TX', Country: ' ' },
+      rowId: 1,
+    })
+    SubdivisionRecordCompute({
+      subdivisionField: 'Province',
+      countryField: 'Country',
+    })(record)
+    expect(record.get('Province')).toBe('US-TX')
+    expect(record.toJSON().info).toEqual([])
+  })
+})
@@ -0,0 +1,120 @@
+import _ from 'lodash'
+import { FlatfileRecord } from '@flatfile/hooks'
+
+import { ListSubdivisionsFragment } from '../fragments/subdivisions'
+
+type SubdivisionFormat = 'full' | 'short'
+
+export interface SubdivisionRecordComputeOptions {
+  subdivisionField: string
+  countryField: string
+  // 'full' stores 'CA-ON', 'short' stores 'ON'
+  format?: SubdivisionFormat
+}
+
+const normalizeName = (x: string): string =>
+  _.deburr(x)
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+
+/**
+ * Finds the ISO 3166-2 code for a subdivision of a country. Accepts the full
+ * code ('CA-ON'), the code without its country prefix ('ON') or the
+ * subdivision name ('Ontario').
+ *
+ * @param {string} raw - the subdivision value to look up
+ * @param {string} country - ISO 3166 country code, a key of ListSubdivisionsFragment
+ * @return {string | undefined} the full ISO 3166-2 code, undefined when there is no match
+ */
+export const findSubdivisionCode = (
+  raw: string,
+  country: string
+): string | undefined => {
+  const subdivisions = ListSubdivisionsFragment[country]
+  if (subdivisions === undefined) {
+    return undefined
+  }
+
+  const key = _.deburr(raw).trim().toUpperCase()
+  const prefixed = key.match(/^([A-Z]{2})[-_ ]([A-Z0-9]{1,3})$/)
+  const code = prefixed ? `${prefixed[1]}-${prefixed[2]}` : `${country}-${key}`
+  if (_.has(subdivisions, code)) {
+    return code
+  }
+
+  const name = normalizeName(raw)
+  return _.findKey(subdivisions, (label) => normalizeName(label) === name)
+}
+
+/**
+ * Builds a recordCompute that validates a subdivision (province/state) field
+ * against the country field of the same record, and normalizes names and
+ * partial codes to the canonical ISO 3166-2 code. Only the countries of
+ * ListSubdivisionsFragment are validated, subdivisions of other countries get
+ * a warning and are left as they are.
+ *
+ * @example
+ * const provinceCompute = SubdivisionRecordCompute({
+ *   subdivisionField: 'Province',
+ *   countryField: 'Country',
+ * })
+ *
+ * new Sheet('Employees', fields, { recordCompute: provinceCompute })
+ */
+export const SubdivisionRecordCompute = ({
+  subdivisionField,
+  countryField,
+  format = 'full',
+}: SubdivisionRecordComputeOptions) => {
+  return (record: FlatfileRecord): void => {
+    const raw = record.get(subdivisionField)
+    if (!_.isString(raw) || raw.trim() === '') {
+      return
+    }
+
+    const prefix = raw
+      .trim()
+      .toUpperCase()
+      .match(/^([A-Z]{2})-[A-Z0-9]{1,3}$/)
+    const countryValue = record.get(countryField)
+    // a blank country is missing, the code prefix may still name it
+    const country =
+      _.isString(countryValue) && countryValue.trim() !== ''
+        ? countryValue.trim().toUpperCase()
+        : prefix?.[1]
+
+    if (country === undefined) {
+      record.addWarning(
+        subdivisionField,
+        `'${raw}' could not be validated without a value in ${countryField}`
+      )
+      return
+    }
+
+    if (ListSubdivisionsFragment[country] === undefined) {
+      record.addWarning(
+        subdivisionField,
+        `No subdivision list is available for country '${country}', '${raw}' was not validated`
+      )
+      return
+    }
+
+    const code = findSubdivisionCode(raw, country)
+    if (code === undefined) {
+      record.addError(
+        subdivisionField,
+        `'${raw}' is not a valid subdivision of country '${country}'`
+      )
+      return
+    }
+
+    const canonical = format === 'full' ? code : code.split('-')[1]
+    if (canonical !== raw) {
+      record.set(subdivisionField, canonical)
+      record.addInfo(
+        subdivisionField,
+        `Value was normalized from '${raw}' to '${canonical}'`
+      )
+    }
+  }
+}
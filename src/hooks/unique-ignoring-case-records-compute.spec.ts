@@ -0,0 +1,109 @@
+import { Sheet, TextField, Workbook } from '@flatfile/configure'
+import { FlatfileRecords, FlatfileSession, IPayload } from '@flatfile/hooks'
+
+import { SheetTester, matchSingleMessage } from '../utils/testing/SheetTester'
+import { UniqueIgnoringCaseRecordsCompute } from './unique-ignoring-case-records-compute'
+import { ReferenceApi } from './lookup-records-compute'
+
+const UniqueSheet = new Sheet(
+  'UniqueSheet',
+  {
+    email: TextField({ unique: true }),
+  },
+  {
+    batchRecordsCompute: UniqueIgnoringCaseRecordsCompute(['email']),
+  }
+)
+
+const UniqueBook = new Workbook({
+  name: 'UniqueBook',
+  namespace: 'test',
+  sheets: { UniqueSheet },
+})
+
+describe('UniqueIgnoringCaseRecordsCompute ->', () => {
+  const testSheet = new SheetTester(UniqueBook, 'UniqueSheet')
+
+  test('values differing only in case are flagged', async () => {
+    const [first, second, third] = await testSheet.testMessages([
+      { email: 'Jane@x.com' },
+      { email: 'jane@x.com' },
+      { email: 'john@x.com' },
+    ])
+    expect(
+      matchSingleMessage(
+        first,
+        'email',
+        "Value must be unique ignoring case, it matches 'jane@x.com'",
+        'error'
+      )
+    ).toBeTruthy()
+    expect(
+      matchSingleMessage(
+        second,
+        'email',
+        "Value must be unique ignoring case, it matches 'Jane@x.com'",
+        'error'
+      )
+    ).toBeTruthy()
+    expect(third).toHaveLength(0)
+  })
+
+  test('exact duplicates are left to the unique check', async () => {
+    const [first] = await testSheet.testMessages([
+      { email: 'jane@x.com' },
+      { email: 'jane@x.com' },
+    ])
+    expect(first).toHaveLength(1)
+    expect(first[0].message).toBe('Value must be unique')
+  })
+})
+
+describe('UniqueIgnoringCaseRecordsCompute with api ->', () => {
+  // the sheet as stored, record 1 is also in the batch with a new value
+  const api: ReferenceApi = {
+    getSheets: async () => ({ data: [] }),
+    getRecords: async () => ({
+      data: {
+        success: true,
+        records: [
+          ['1', 'Old@x.com'],
+          ['2', 'John@x.com'],
+          ['3', ''],
+        ].map(([id, email]) => ({
+          id,
+          workbookId: 'wb',
+          sheetId: 'sheet-emails',
+          values: { email: { value: email } },
+        })),
+      },
+    }),
+  }
+  const compute = UniqueIgnoringCaseRecordsCompute(['email'], () => api)
+  const batch = () =>
+    new FlatfileRecords([
+      { rawData: { email: 'john@x.com' }, rowId: '4' },
+      { rawData: { email: 'old@x.com' }, rowId: '1' },
+    ])
+
+  test('the batch is compared with the rest of the sheet for sheet events', async () => {
+    const records = batch()
+    const event = { workbookId: 'wb', sheetId: 'sheet-emails' }
+    await compute(records, event as unknown as FlatfileSession)
+    const [john, old] = records.toJSON()
+    expect(john.info.map(({ message }) => message)).toEqual([
+      "Value must be unique ignoring case, it matches 'John@x.com'",
+    ])
+    // record 1 was 'Old@x.com', its new value doesn't clash with itself
+    expect(old.info).toEqual([])
+  })
+
+  test('other sessions only compare the batch', async () => {
+    const records = batch()
+    await compute(
+      records,
+      new FlatfileSession({ workbookId: 'wb' } as IPayload)
+    )
+    expect(records.toJSON().map((record) => record.info)).toEqual([[], []])
+  })
+})
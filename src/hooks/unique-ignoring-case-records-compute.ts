@@ -0,0 +1,85 @@
+import _ from 'lodash'
+import {
+  FlatfileRecord,
+  FlatfileRecords,
+  FlatfileSession,
+} from '@flatfile/hooks'
+import { ReferenceApi, readSheetColumn } from './lookup-records-compute'
+
+/**
+ * Builds a batchRecordsCompute that flags values differing only in case from
+ * a value of another record, e.g. 'Jane@x.com' and 'jane@x.com'. Exact
+ * duplicates are left to the field's `unique` check.
+ *
+ * Batches only hold the records that were just created or updated, so with
+ * api the records of the batch are also compared with the rest of the sheet,
+ * read through the Flatfile API. Only sessions of sheet events carry a
+ * sheetId and can be read this way, other sessions, such as legacy data hooks
+ * and SheetTester, compare the records of the batch with each other.
+ *
+ * @example
+ * const uniqueEmails = UniqueIgnoringCaseRecordsCompute(
+ *   ['EmailAddress'],
+ *   () => Employees.api
+ * )
+ */
+export const UniqueIgnoringCaseRecordsCompute = (
+  fields: string[],
+  api?: () => ReferenceApi
+) => {
+  return async (
+    records: FlatfileRecords<any>,
+    session?: FlatfileSession
+  ): Promise<void> => {
+    const context = session as { workbookId?: string; sheetId?: string }
+    const batchIds = new Set(
+      records.records.map((record: FlatfileRecord) => String(record.rowId))
+    )
+
+    for (const field of fields) {
+      // the values of the rest of the sheet, the batch holds the new values
+      // of its own records
+      const sheetValues =
+        api && context?.workbookId && context.sheetId
+          ? _.values(
+              _.omitBy(
+                await readSheetColumn(
+                  api(),
+                  context.workbookId,
+                  context.sheetId,
+                  field
+                ),
+                (_value, rowId) => batchIds.has(rowId)
+              )
+            )
+          : []
+      const sheetByKey = _.groupBy(sheetValues, (value) => value.toLowerCase())
+
+      const withValues: FlatfileRecord[] = records.records.filter(
+        (record: FlatfileRecord) => _.isString(record.get(field))
+      )
+      const byKey = _.groupBy(withValues, (record) =>
+        (record.get(field) as string).toLowerCase()
+      )
+      _.toPairs(byKey).forEach(([key, group]) => {
+        const values = _.uniq([
+          ...group.map((record) => record.get(field)),
+          ...(sheetByKey[key] ?? []),
+        ])
+        if (values.length < 2) {
+          return
+        }
+        group.forEach((record) => {
+          const value = record.get(field)
+          const others = values.filter((other) => other !== value)
+          record.addError(
+            field,
+            `Value must be unique ignoring case, it matches ${others
+              .map((other) => `'${other}'`)
+              .join(', ')}`
+          )
+        })
+      })
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { format } from 'date-fns'
+
+import { SheetTester, matchSingleMessage } from './utils/testing/SheetTester'
+import Space from './index'
+
+const Employees = Space.options.workbookConfigs.basic
+
+describe('Employees ->', () => {
+  const employeeSheet = new SheetTester(Employees, 'Employees')
+  const inDays = (days: number) =>
+    format(new Date(Date.now() + days * 24 * 60 * 60 * 1000), 'yyyy-MM-dd')
+
+  test('dates of birth in the future are errors', async () => {
+    const messages = await employeeSheet.testMessage({
+      id: 'E1',
+      DateOfBirth: inDays(30),
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'DateOfBirth',
+        'DateOfBirth must not be in the future',
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('blank visit attachment answers are No', async () => {
+    const res = await employeeSheet.testRecords([
+      { id: 'E1', SubmitVisitAttachments: '' },
+      { id: 'E2', SubmitVisitAttachments: 'oui' },
+    ])
+    expect(res.map((row) => row['SubmitVisitAttachments'])).toEqual([
+      'No',
+      'Yes',
+    ])
+  })
+
+  test('seniority dates are stored as months', async () => {
+    const [day, month] = await employeeSheet.testRecords([
+      { id: 'E1', SeniorityDate: '2019-03-15' },
+      { id: 'E2', SeniorityDate: '03/2019' },
+    ])
+    expect([day['SeniorityDate'], month['SeniorityDate']]).toEqual([
+      '2019-03',
+      '2019-03',
+    ])
+    const messages = await employeeSheet.testMessage({
+      id: 'E1',
+      SeniorityDate: '2019',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'SeniorityDate',
+        "Error: '2019' is less precise than a month",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+
+  test('employment dates can be scheduled within a year', async () => {
+    const messages = await employeeSheet.testMessage({
+      id: 'E1',
+      Status: 'Active',
+      EmploymentDate: inDays(30),
+    })
+    expect(
+      messages.filter((message) => message.field === 'EmploymentDate')
+    ).toEqual([])
+  })
+})
+
+describe('Employees child sheets ->', () => {
+  // each test loads its own workbook, reference values are kept per workbook
+  const loadReferences = async (workbookId: string) => {
+    const load = (sheet: string, rows: Record<string, any>[]) =>
+      new SheetTester(Employees, sheet, workbookId).testRecords(rows)
+    await load('Employees', [{ id: 'E1' }, { id: 'E2' }])
+    await load('Departments', [{ Code: 'HR' }])
+    await load('Groups', [{ Name: 'Nurses' }])
+    await load('Clients', [{ Id: 'C1' }])
+  }
+
+  const orphanMessages = async (
+    workbookId: string,
+    sheet: string,
+    row: Record<string, any>
+  ) => new SheetTester(Employees, sheet, workbookId).testMessage(row)
+
+  test('rows of employees that exist are accepted', async () => {
+    await loadReferences('matched')
+    expect(
+      await orphanMessages('matched', 'EmployeeDepartments', {
+        EmployeeId: 'E1',
+        DepartmentCode: 'HR',
+      })
+    ).toEqual([])
+  })
+
+  test.each([
+    ['EmployeeRoles', 'EmployeeId', 'Employees', 'id', { Role: 'Nurse' }],
+    [
+      'EmployeeDepartments',
+      'EmployeeId',
+      'Employees',
+      'id',
+      { DepartmentCode: 'HR' },
+    ],
+    [
+      'EmployeeDepartments',
+      'DepartmentCode',
+      'Departments',
+      'Code',
+      { EmployeeId: 'E1' },
+    ],
+    [
+      'EmployeeGroups',
+      'EmployeeId',
+      'Employees',
+      'id',
+      { GroupName: 'Nurses' },
+    ],
+    ['EmployeeGroups', 'GroupName', 'Groups', 'Name', { EmployeeId: 'E1' }],
+    ['AssociatedEmployees', 'ClientId', 'Clients', 'Id', { EmployeeId: 'E1' }],
+  ])(
+    'orphaned %s rows get an error on %s',
+    async (sheet, field, sheetKey, foreignKey, rest) => {
+      const workbookId = `orphans-${sheet}-${field}`
+      await loadReferences(workbookId)
+      const messages = await orphanMessages(workbookId, sheet, {
+        ...rest,
+        [field]: 'Missing',
+      })
+      expect(
+        matchSingleMessage(
+          messages,
+          field,
+          `'Missing' is not in the [${foreignKey}] column of the sheet [${sheetKey}]`,
+          'error'
+        )
+      ).toBeTruthy()
+    }
+  )
+
+  test('reprocessing some employees keeps the others', async () => {
+    await loadReferences('edited')
+    // an edit in review only sends the edited first row
+    await new SheetTester(Employees, 'Employees', 'edited').testRecords([
+      { id: 'E1' },
+    ])
+    expect(
+      await orphanMessages('edited', 'EmployeeRoles', {
+        EmployeeId: 'E2',
+        Role: 'Nurse',
+      })
+    ).toEqual([])
+  })
+
+  test('employees of another workbook are not accepted', async () => {
+    await loadReferences('other')
+    const messages = await orphanMessages('unloaded', 'EmployeeGroups', {
+      EmployeeId: 'E1',
+      GroupName: 'Nurses',
+    })
+    expect(
+      matchSingleMessage(
+        messages,
+        'EmployeeId',
+        "'E1' can't be checked until the sheet [Employees] is loaded, load it and process this sheet again",
+        'error'
+      )
+    ).toBeTruthy()
+  })
+})
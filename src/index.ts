@@ -2,7 +2,6 @@ import {
   Sheet,
   Workbook,
   TextField,
-  Message,
   ReferenceField,
   OptionField,
   NumberField,
@@ -11,7 +10,50 @@ import {
 
 import { ListCountriesFragment } from './fragments/countries'
 import { ListTimeZoneFragment } from './fragments/timezones'
-import { SmartDateField } from './SmartDateField'
+import {
+  SmartDateField,
+  SmartDateOrderRecordsCompute,
+  SmartDateRelativeRecordCompute,
+} from './SmartDateField'
+import { AddressRecordCompute } from './hooks/address-record-compute'
+import { NameRecordCompute } from './hooks/name-record-compute'
+import { UniqueIgnoringCaseRecordsCompute } from './hooks/unique-ignoring-case-records-compute'
+import { SubdivisionRecordCompute } from './hooks/subdivision-record-compute'
+import { PostalCodeRecordCompute } from './hooks/postal-code-record-compute'
+import { PhoneNumberField, PhoneNumberRecordCompute } from './PhoneNumberField'
+import { LanguageField } from './LanguageField'
+import { SynonymOptionField, SynonymRecordCompute } from './SynonymOptionField'
+import { YesNoField } from './YesNoField'
+import { EmailField } from './EmailField'
+import { NationalIdField } from './NationalIdField'
+import {
+  PasswordField,
+  PasswordPolicy,
+  PasswordRecordCompute,
+} from './PasswordField'
+import { alphanumeric } from './validators'
+import { RecordRulesRecordCompute } from './hooks/record-rules-record-compute'
+import {
+  forbiddenWhen,
+  requiredUnless,
+  requiredWhen,
+} from './hooks/conditional-requirements-record-compute'
+import {
+  ageBetween,
+  notAfter,
+  notInFuture,
+  onOrAfter,
+} from './hooks/date-rules-record-compute'
+import {
+  inRange,
+  nonNegativeInteger,
+  notGreaterThan,
+} from './hooks/number-rules-record-compute'
+import {
+  ApiReferenceValueSource,
+  LookupRecordsCompute,
+  ReferenceValues,
+} from './hooks/lookup-records-compute'
 
 /*
  * Types
@@ -148,920 +190,1308 @@ const isString = (x: unknown): x is string => typeof x === 'string'
 const isNumber = (x: unknown): x is number => typeof x === 'number'
 
 /*
- * Field Validations
+ * Record Computes
  */
 
-const validateEmail = (value: string) => (): void | Message => {
-  if (!value.includes('@')) {
-    return new Message('Invalid email address.', 'error', 'validate')
-  }
-
-  return
+const nameFields = {
+  firstNameField: 'FirstName',
+  lastNameField: 'LastName',
+  salutationField: 'Salutation',
 }
 
-const validateRegex =
-  (regex: RegExp) => (value: string) => (): void | Message => {
-    if (isFalsy(regex.test(value))) {
-      return new Message(
-        'Value does not meet required format.',
-        'error',
-        'validate'
-      )
-    }
-
-    return
-  }
+const firstNameRecordCompute = NameRecordCompute({
+  fullNameField: 'FirstName',
+  ...nameFields,
+})
 
-/**
- * Allows us to combine multiple validations in a quick and easy way.
- *
- * @example
- * runValidations(fn1, fn2, fn3, ...);
- */
-const runValidations = (...fns: Array<any>): Array<Message> => {
-  return fns.reduce((acc, fn) => [...acc, fn()], []).filter(isNotNil)
+const lastNameRecordCompute = NameRecordCompute({
+  fullNameField: 'LastName',
+  ...nameFields,
+})
+
+const passwordPolicy: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 72,
+  requiredClasses: ['lower', 'upper', 'digit'],
+  allowWhitespace: false,
 }
 
+const passwordRecordCompute = PasswordRecordCompute({
+  passwordField: 'Password',
+  notEqualTo: ['EmailAddress', 'FirstName', 'LastName'],
+  generate: true,
+  policy: passwordPolicy,
+})
+
+const addressRecordCompute = AddressRecordCompute({
+  addressField: 'Address',
+  suiteNumberField: 'SuiteNumber',
+  cityField: 'City',
+  provinceField: 'Province',
+  postalCodeField: 'PostalCode',
+  countryField: 'Country',
+})
+
+const provinceRecordCompute = SubdivisionRecordCompute({
+  subdivisionField: 'Province',
+  countryField: 'Country',
+})
+
+const postalCodeRecordCompute = PostalCodeRecordCompute({
+  postalCodeField: 'PostalCode',
+  countryField: 'Country',
+})
+
+const phoneNumberRecordCompute = PhoneNumberRecordCompute({
+  phoneNumberFields: [
+    'MainPhoneNumber',
+    'PersonalPhoneNumber',
+    'OtherPhoneNumber',
+    'FaxNumber',
+  ],
+  countryField: 'Country',
+})
+
+const relativeDateRecordCompute = SmartDateRelativeRecordCompute({
+  dateFields: ['EmploymentDate'],
+})
+
+// the employment dates store only a date, so the time of day and the
+// employee's Timezone don't change them
+const dateOrderRecordsCompute = SmartDateOrderRecordsCompute({
+  dateFields: ['DateOfBirth', 'EmploymentDate', 'TerminationDate'],
+})
+
+const seniorityDateOrderRecordsCompute = SmartDateOrderRecordsCompute({
+  dateFields: ['SeniorityDate'],
+  precision: 'month',
+})
+
+const dateRulesRecordCompute = RecordRulesRecordCompute([
+  onOrAfter('TerminationDate', 'EmploymentDate'),
+  ageBetween('DateOfBirth', 'EmploymentDate', { minAge: 14, maxAge: 100 }),
+  notAfter('SeniorityDate', 'EmploymentDate'),
+  // hires and terminations can be scheduled ahead, births can't
+  notInFuture(['EmploymentDate', 'TerminationDate', 'SeniorityDate'], {
+    horizonDays: 365,
+  }),
+  notInFuture(['DateOfBirth']),
+])
+
+const optionSynonymRecordCompute = SynonymRecordCompute(['Gender', 'Status'])
+
+const statusRequirementsRecordCompute = RecordRulesRecordCompute([
+  requiredWhen('TerminationDate', 'Status', ['Terminated']),
+  forbiddenWhen('TerminationDate', 'Status', ['Active']),
+  requiredUnless('EmploymentDate', 'Status', ['Applicant', 'Rejected']),
+])
+
+const capacityRulesRecordCompute = RecordRulesRecordCompute([
+  notGreaterThan('MinDailyCapacity', 'MaxDailyCapacity'),
+  notGreaterThan('MinWeeklyCapacity', 'MaxWeeklyCapacity'),
+  inRange(['MinDailyCapacity', 'MaxDailyCapacity'], { min: 0, max: 24 }),
+  inRange(['MinWeeklyCapacity', 'MaxWeeklyCapacity'], { min: 0, max: 168 }),
+  notGreaterThan('MaxDailyCapacity', 'MaxWeeklyCapacity'),
+  nonNegativeInteger('MaxCaseload'),
+])
+
 /*
- * Main
+ * Batch Record Computes
  */
 
-const Employees = new Sheet('Employees', {
-  id: TextField({
-    label: 'Id',
-    required: true,
-    primary: true,
-    unique: true,
-    description: 'Every entry must be unique',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+// sheet events also compare the batch with the rest of the sheet
+const uniqueEmailRecordsCompute = UniqueIgnoringCaseRecordsCompute(
+  ['EmailAddress'],
+  () => Employees.api
+)
+
+const referenceValues = new ReferenceValues()
+
+// sheet events read the reference sheets through the API, other sessions use
+// the values their batchRecordsCompute collected
+const referenceSource = ApiReferenceValueSource(
+  () => Employees.api,
+  referenceValues.source
+)
+
+const employeeLookupRecordsCompute = LookupRecordsCompute(
+  [
+    {
+      field: 'EmploymentType',
+      sheetKey: 'EmploymentTypes',
+      foreignKey: 'Name',
+    },
+    {
+      field: 'CostCentreNumber',
+      sheetKey: 'CostCentres',
+      foreignKey: 'Number',
+    },
+    { field: 'SupplierCode', sheetKey: 'Suppliers', foreignKey: 'Code' },
+  ],
+  referenceSource
+)
+
+const collectEmployeeIds = referenceValues.collect('Employees', ['id'])
+
+const employeeIdLookup = {
+  field: 'EmployeeId',
+  sheetKey: 'Employees',
+  foreignKey: 'id',
+  suggest: false,
+}
 
-  //Do we want a record compute here to split names?
-
-  FirstName: TextField({
-    label: 'FirstName',
-    required: true,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+const employeeRolesLookupRecordsCompute = LookupRecordsCompute(
+  [employeeIdLookup],
+  referenceSource
+)
+
+const employeeDepartmentsLookupRecordsCompute = LookupRecordsCompute(
+  [
+    { field: 'DepartmentCode', sheetKey: 'Departments', foreignKey: 'Code' },
+    employeeIdLookup,
+  ],
+  referenceSource
+)
+
+const employeeGroupsLookupRecordsCompute = LookupRecordsCompute(
+  [
+    employeeIdLookup,
+    { field: 'GroupName', sheetKey: 'Groups', foreignKey: 'Name' },
+  ],
+  referenceSource
+)
+
+const associatedEmployeesLookupRecordsCompute = LookupRecordsCompute(
+  [
+    {
+      field: 'ClientId',
+      sheetKey: 'Clients',
+      foreignKey: 'Id',
+      suggest: false,
+    },
+    employeeIdLookup,
+  ],
+  referenceSource
+)
 
-  //Do we want a record compute here to split names?
-
-  LastName: TextField({
-    label: 'LastName',
-    required: true,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+/*
+ * Main
+ */
 
-  //Free text field
-
-  Salutation: TextField({
-    label: 'Salutation',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+const Employees = new Sheet(
+  'Employees',
+  {
+    id: TextField({
+      label: 'Id',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Do we want a record compute here to split addresses? Do we need a full address field in addition to the individual address fields?  Are any of these field conditionally required?
-
-  Address: TextField({
-    label: 'Address',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //A full name in FirstName or LastName is split into FirstName, LastName and Salutation in recordCompute
+
+    FirstName: TextField({
+      label: 'FirstName',
+      required: true,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  SuiteNumber: TextField({
-    label: 'Suite Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //A full name in FirstName or LastName is split into FirstName, LastName and Salutation in recordCompute
+
+    LastName: TextField({
+      label: 'LastName',
+      required: true,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  City: TextField({
-    label: 'City',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Free text field
+
+    Salutation: TextField({
+      label: 'Salutation',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Need list of two digit Codes validated by Country
-
-  Province: TextField({
-    label: 'Province',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Must be a valid Provincial/State/Subdivision ISO3166-2 Code of Country in Column [Country]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //A full address pasted into Address is split into the fields below in recordCompute
+
+    Address: TextField({
+      label: 'Address',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Will all country codes be available for each customer?
-
-  Country: OptionField({
-    label: 'Country',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Must be a valid ISO3166 Country Code',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    options: {
-      ...ListCountriesFragment,
-    },
-  }),
+    SuiteNumber: TextField({
+      label: 'Suite Number',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Do Postal Codes need to be validated by country and/or for format?
-
-  PostalCode: TextField({
-    label: 'Postal Code',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    City: TextField({
+      label: 'City',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Does formatting and/or country impact these fields?
-
-  MainPhoneNumber: TextField({
-    label: 'Main Phone Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Validated against Country and normalized to the ISO3166-2 Code in recordCompute, for the countries of ListSubdivisionsFragment
+
+    Province: TextField({
+      label: 'Province',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a valid Provincial/State/Subdivision ISO3166-2 Code of Country in Column [Country]. Only validated for AU, BR, CA, DE, IN, MX and US, other countries get a warning',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Does formatting and/or country impact these fields?
-
-  PersonalPhoneNumber: TextField({
-    label: 'Personal Phone Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Will all country codes be available for each customer?
+
+    Country: OptionField({
+      label: 'Country',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Must be a valid ISO3166 Country Code',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+      options: {
+        ...ListCountriesFragment,
+      },
+    }),
 
-  //Does formatting and/or country impact these fields?
-
-  OtherPhoneNumber: TextField({
-    label: 'Other Phone Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Validated and normalized against the format of Country in recordCompute
+
+    PostalCode: TextField({
+      label: 'Postal Code',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a valid Postal Code for the Country in Column [Country]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Does formatting and/or country impact these fields?
-
-  FaxNumber: TextField({
-    label: 'Fax Phone Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Numbers without a country code are parsed with Country as the region
+
+    MainPhoneNumber: PhoneNumberField({
+      label: 'Main Phone Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Stored in E.164 format, e.g. +14165550100',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Free text field
-
-  JobTitle: TextField({
-    label: 'Job Title',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Numbers without a country code are parsed with Country as the region
+
+    PersonalPhoneNumber: PhoneNumberField({
+      label: 'Personal Phone Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Stored in E.164 format, e.g. +14165550100',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Are there system rules for email address format?
-
-  EmailAddress: TextField({
-    label: 'Email Address',
-    required: true,
-    primary: false,
-    unique: true,
-    description: 'Every entry must be unique. Must be a valid e-mail address',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    validate: (value) => {
-      const ensureValidEmail = validateEmail(value)
+    //Numbers without a country code are parsed with Country as the region
+
+    OtherPhoneNumber: PhoneNumberField({
+      label: 'Other Phone Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Stored in E.164 format, e.g. +14165550100',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-      return runValidations(ensureValidEmail)
-    },
-  }),
+    //Numbers without a country code are parsed with Country as the region
+
+    FaxNumber: PhoneNumberField({
+      label: 'Fax Phone Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Stored in E.164 format, e.g. +14165550100',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //How is password formatted / generated?
-
-  Password: TextField({
-    label: 'Password',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Password: Required minimum of 8 characters and maximum 72 characters',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    validate: (value) => {
-      const ensureValidChars = validateRegex(/^.{8,72}$/)(value)
+    //Free text field
+
+    JobTitle: TextField({
+      label: 'Job Title',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-      return runValidations(ensureValidChars)
-    },
-  }),
+    //Validated and normalized by EmailField, uniqueness ignoring case is checked in batchRecordsCompute
+
+    EmailAddress: EmailField({
+      label: 'Email Address',
+      required: true,
+      primary: false,
+      unique: true,
+      description:
+        'Every entry must be unique, ignoring case. Must be a valid e-mail address',
+      flagRoleAccounts: true,
+      flagDisposableDomains: true,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Are there any validations needed for this field?
-
-  DateOfBirth: SmartDateField({
-    label: 'Date Of Birth',
-    formatString: 'yyyy-MM-dd',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Checked against passwordPolicy, a password is generated in recordCompute when it is left empty
+
+    Password: PasswordField({
+      label: 'Password',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Password: Required minimum of 8 characters and maximum 72 characters, with a lowercase letter, an uppercase letter and a digit. Left empty, a random password is generated',
+      policy: passwordPolicy,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //For the picklist values - does Male = M, Female = F - can we consolidate?
-
-  Gender: OptionField({
-    label: 'Gender',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Entries must only be one of the following: [Male, Female, M, F, Other]',
-    options: {
-      Male: 'Male',
-      Female: 'Female',
-      M: 'M',
-      F: 'F',
-      Other: 'Other',
-    },
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Checked against the other employment dates in batchRecordsCompute
+
+    DateOfBirth: SmartDateField({
+      label: 'Date Of Birth',
+      formatString: 'yyyy-MM-dd',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Are there any validations needed for this field?
-
-  EmploymentDate: SmartDateField({
-    label: 'Employment Date',
-    formatString: 'yyyy-MM-dd',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //M and F are accepted as synonyms of Male and Female and noted in recordCompute
+
+    Gender: SynonymOptionField({
+      label: 'Gender',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Entries must only be one of the following: [Male, Female, Other]. M and F are also accepted',
+      options: {
+        Male: 'Male',
+        Female: 'Female',
+        Other: 'Other',
+      },
+      synonyms: {
+        Male: ['M'],
+        Female: ['F'],
+      },
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Are there any validations needed for this field?
-
-  TerminationDate: SmartDateField({
-    label: 'Termination Date',
-    formatString: 'yyyy-MM-dd',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Checked against the other employment dates in batchRecordsCompute
+
+    EmploymentDate: SmartDateField({
+      label: 'Employment Date',
+      formatString: 'yyyy-MM-dd',
+      relative: {},
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a valid ISO8601 formatted date (YYYY-MM-DD). Dates like "next Monday" are read from the day of the import',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //For the picklist values - are these consistent across customers?
-
-  Status: OptionField({
-    label: 'Status',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Entries must only be one of the following: [Active, Terminated, Suspended, Hold, On Hold, Pending, Applicant, Rejected]',
-    options: {
-      Active: 'Active',
-      Terminated: 'Terminated',
-      Suspended: 'Suspended',
-      Hold: 'Hold',
-      OnHold: 'On Hold',
-      Pending: 'Pending',
-      Applicant: 'Applicant',
-      Rejected: 'Rejected',
-    },
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Checked against the other employment dates in batchRecordsCompute
+
+    TerminationDate: SmartDateField({
+      label: 'Termination Date',
+      formatString: 'yyyy-MM-dd',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Check for Alpha Numeric
-
-  PayrollId: TextField({
-    label: 'Payroll Id',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Alpha Numeric Field',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    validate: (value) => {
-      const ensureValidChars = validateRegex(/^[a-zA-Z0-9]+$/)(value)
+    //For the picklist values - are these consistent across customers?
+    //Drives the requirements of TerminationDate and EmploymentDate in recordCompute
+    //Hold is accepted as a synonym of On Hold and noted in recordCompute
+
+    Status: SynonymOptionField({
+      label: 'Status',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Entries must only be one of the following: [Active, Terminated, Suspended, On Hold, Pending, Applicant, Rejected]. Hold is also accepted',
+      options: {
+        Active: 'Active',
+        Terminated: 'Terminated',
+        Suspended: 'Suspended',
+        OnHold: 'On Hold',
+        Pending: 'Pending',
+        Applicant: 'Applicant',
+        Rejected: 'Rejected',
+      },
+      synonyms: {
+        OnHold: ['Hold'],
+      },
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-      return runValidations(ensureValidChars)
-    },
-  }),
+    //Check for Alpha Numeric
+
+    PayrollId: TextField({
+      label: 'Payroll Id',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Alpha Numeric Field',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+      validate: alphanumeric(),
+    }),
 
-  //Look-Up Field against sheet / API
-
-  EmploymentType: TextField({
-    label: 'Employment Type',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Name] Column in the sheet [EmploymentTypes]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Looked up against its reference sheet in batchRecordsCompute
+
+    EmploymentType: TextField({
+      label: 'Employment Type',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Name] Column in the sheet [EmploymentTypes]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look up field in AC DB
-
-  OvertimeRule: TextField({
-    label: 'Overtime Rule',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Look up field in AC DB
+
+    OvertimeRule: TextField({
+      label: 'Overtime Rule',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Check for Alpha Numeric
-
-  SINNumber: TextField({
-    label: 'SIN Number',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Alpha Numeric Field',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    validate: (value) => {
-      const ensureValidChars = validateRegex(/^[a-zA-Z0-9]+$/)(value)
+    //Checksum validated by NationalIdField, shipped without a mask as the Workday load reads the full SIN from the export
+
+    SINNumber: NationalIdField({
+      label: 'SIN Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Must be a valid 9 digit Canadian SIN, e.g. 123-456-782',
+      scheme: 'SIN',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-      return runValidations(ensureValidChars)
-    },
-  }),
+    //Check for Alpha Numeric
+
+    CertificationNumber: TextField({
+      label: 'Certification Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Alpha Numeric Field',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+      validate: alphanumeric(),
+    }),
 
-  //Check for Alpha Numeric
-
-  CertificationNumber: TextField({
-    label: 'Certification Number',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Alpha Numeric Field',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    validate: (value) => {
-      const ensureValidChars = validateRegex(/^[a-zA-Z0-9]+$/)(value)
+    //Look up field in AC DB
+
+    Designation: TextField({
+      label: 'Designation',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-      return runValidations(ensureValidChars)
-    },
-  }),
+    //Look up field/validation in AC DB
+
+    SeniorityRank: TextField({
+      label: 'Seniority Rank',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look up field in AC DB
-
-  Designation: TextField({
-    label: 'Designation',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Look up field/validation in AC DB
+
+    SeniorityNumber: TextField({
+      label: 'Seniority Number',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look up field/validation in AC DB
-
-  SeniorityRank: TextField({
-    label: 'Seniority Rank',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Checked against the other employment dates in batchRecordsCompute
+
+    SeniorityDate: SmartDateField({
+      label: 'Seniority Date',
+      formatString: 'yyyy-MM',
+      precision: 'month',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a month or a date, e.g. 03/2019 or 2019-03-15, and is stored as the month (YYYY-MM). Years on their own like 2019 are not accepted',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look up field/validation in AC DB
-
-  SeniorityNumber: TextField({
-    label: 'Seniority Number',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Look Up Field - what are we looking up against?
+
+    SalaryBase: TextField({
+      label: 'Salary Base',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Are there any validations needed for this field?
-
-  SeniorityDate: SmartDateField({
-    label: 'Seniority Date',
-    formatString: 'yyyy-MM-dd',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Must be a valid ISO8601 formatted date (YYYY-MM-DD)',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Min/Max consistency of the capacity fields is checked in recordCompute
+
+    MinDailyCapacity: NumberField({
+      label: 'Min Daily Capacity',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Numeric in hours, between 0 and 24',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look Up Field - what are we looking up against?
-
-  SalaryBase: TextField({
-    label: 'Salary Base',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    MaxDailyCapacity: NumberField({
+      label: 'Max Daily Capacity',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Numeric in hours, between 0 and 24',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  MinDailyCapacity: NumberField({
-    label: 'Min Daily Capacity',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Numeric in hours',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    MinWeeklyCapacity: NumberField({
+      label: 'Min Weekly Capacity',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Numeric in hours, between 0 and 168',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  MaxDailyCapacity: NumberField({
-    label: 'Max Daily Capacity',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Numeric in hours',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    MaxWeeklyCapacity: NumberField({
+      label: 'Max Weekly Capacity',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Numeric in hours, between 0 and 168',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  MinWeeklyCapacity: NumberField({
-    label: 'Min Weekly Capacity',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Numeric in hours',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    MaxCaseload: NumberField({
+      label: 'Max Caseload',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Whole number of 0 or more',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  MaxWeeklyCapacity: NumberField({
-    label: 'Max Weekly Capacity',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Numeric in hours',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //For the picklist values - is the empty value necessary?
+
+    DefaultEmployeeAvailability: OptionField({
+      label: 'Default Employee Availability',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Entries must only be one of the following: [Available, Unavailable, empty value]',
+      options: {
+        Available: 'Available',
+        Unavailable: 'Unavailable',
+      },
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  MaxCaseload: NumberField({
-    label: 'Max Caseload',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Held as a boolean and written out as Yes or No, blanks are No
+
+    SubmitVisitAttachments: YesNoField({
+      label: 'Submit Visit Attachments',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Answers can be [yes] or [no], or a form of them such as [y/n], [true/false], [1/0] or [oui/non]. Blanks are [no]',
+      format: 'Yes/No',
+      default: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //For the picklist values - is the empty value necessary?
-
-  DefaultEmployeeAvailability: OptionField({
-    label: 'Default Employee Availability',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Entries must only be one of the following: [Available, Unavailable, empty value]',
-    options: {
-      Available: 'Available',
-      Unavailable: 'Unavailable',
-    },
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //For the picklist values - is the empty value necessary?
+
+    TravelMode: OptionField({
+      label: 'Travel Mode',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Entries must only be one of the following: [Driving, Biking, Walking, Transit, empty value]',
+      options: {
+        Driving: 'Driving',
+        Biking: 'Biking',
+        Walking: 'Walking',
+        Transit: 'Transit',
+      },
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Options are Yes and No - would it make sense to turn this into a Boolean field?
-
-  SubmitVisitAttachments: OptionField({
-    label: 'Submit Visit Attachments',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Answers can either be [yes] or [no]',
-    options: {
-      Yes: 'Yes',
-      No: 'No',
-    },
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Codes and names are resolved by LanguageField and stored as ISO 639-1 codes
+
+    preferred_language: LanguageField({
+      label: 'Preferred Language',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a language that has an ISO639-1 Language Code, entered as its code or name. For English you can enter "en", "eng" or "English", it is stored as "en". Languages with only an ISO639-3 code, such as "yue", are not accepted',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //For the picklist values - is the empty value necessary?
-
-  TravelMode: OptionField({
-    label: 'Travel Mode',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Entries must only be one of the following: [Driving, Biking, Walking, Transit, empty value]',
-    options: {
-      Driving: 'Driving',
-      Biking: 'Biking',
-      Walking: 'Walking',
-      Transit: 'Transit',
-    },
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    Remarks: TextField({
+      label: 'Remarks',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Free text field',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Need list of valid language codes - Mapping can facilitate the need for multiple entries
-
-  preferred_language: TextField({
-    label: 'Preferred Language',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Must be a valid ISO639 Language Code. For English you can enter either "en" or "eng"',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Looked up against its reference sheet in batchRecordsCompute
+
+    CostCentreNumber: TextField({
+      label: 'Cost Centre Number',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Number] Column in the sheet [CostCentres]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  Remarks: TextField({
-    label: 'Remarks',
-    required: false,
-    primary: false,
-    unique: false,
-    description: 'Free text field',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Looked up against its reference sheet in batchRecordsCompute
+
+    SupplierCode: TextField({
+      label: 'Supplier Code',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Code] Column in the sheet [Suppliers]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look-Up Field against sheet / API
-
-  CostCentreNumber: TextField({
-    label: 'Cost Centre Number',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Number] Column in the sheet [CostCentres]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
+    //Look-Up Field against IANA Time Zone Database or Option Field
+
+    Timezone: OptionField({
+      label: 'Timezone',
+      required: false,
+      primary: false,
+      unique: false,
+      description:
+        'Must be a valid time zone name from the IANA Time Zone Database, e.g. America/Toronto or Australia/Sydney',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+      options: {
+        ...ListTimeZoneFragment,
+      },
+    }),
+  },
+  {
+    recordCompute: (record) => {
+      firstNameRecordCompute(record)
+      lastNameRecordCompute(record)
+      addressRecordCompute(record)
+      passwordRecordCompute(record)
+      provinceRecordCompute(record)
+      postalCodeRecordCompute(record)
+      phoneNumberRecordCompute(record)
+      optionSynonymRecordCompute(record)
+      relativeDateRecordCompute(record)
+      statusRequirementsRecordCompute(record)
+      capacityRulesRecordCompute(record)
+    },
+    batchRecordsCompute: async (records, session) => {
+      await collectEmployeeIds(records, session)
+      await dateOrderRecordsCompute(records)
+      await seniorityDateOrderRecordsCompute(records)
+      // after the date order is settled for the whole column
+      records.records.forEach((record) => dateRulesRecordCompute(record))
+      await uniqueEmailRecordsCompute(records, session)
+      await employeeLookupRecordsCompute(records, session)
     },
-  }),
+  }
+)
+
+const EmploymentTypes = new Sheet(
+  'Employment Types',
+  {
+    Name: TextField({
+      label: 'Name',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look-Up Field against sheet / API
-
-  SupplierCode: TextField({
-    label: 'Supplier Code',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Code] Column in the sheet [Suppliers]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    Description: TextField({
+      label: 'Description',
+      required: false,
+      primary: false,
+      unique: false,
+      description: 'Free text field',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('EmploymentTypes', ['Name']),
+  }
+)
+
+const CostCentres = new Sheet(
+  'Cost Centres',
+  {
+    Number: TextField({
+      label: 'Number',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Look-Up Field against IANA Time Zone Database or Option Field
-
-  Timezone: OptionField({
-    label: 'Timezone',
-    required: false,
-    primary: false,
-    unique: false,
-    description:
-      'Must be a valid time zone name from the IANA Time Zone Database, e.g. America/Toronto or Australia/Sydney',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-    options: {
-      ...ListTimeZoneFragment,
-    },
-  }),
-})
+    Name: TextField({
+      label: 'Name',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('CostCentres', ['Number']),
+  }
+)
+
+const Suppliers = new Sheet(
+  'Suppliers',
+  {
+    Code: TextField({
+      label: 'Code',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-const EmployeeRoles = new Sheet('Employee Roles', {
-  //Lookup Field against Employees
-
-  EmployeeId: ReferenceField({
-    label: 'Employee Id',
-    sheetKey: 'Employees',
-    foreignKey: 'id',
-    relationship: 'has-many',
-    required: true,
-    primary: true,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    Name: TextField({
+      label: 'Name',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('Suppliers', ['Code']),
+  }
+)
+
+const EmployeeRoles = new Sheet(
+  'Employee Roles',
+  {
+    //Lookup Field against Employees
+
+    EmployeeId: ReferenceField({
+      label: 'Employee Id',
+      sheetKey: 'Employees',
+      foreignKey: 'id',
+      relationship: 'has-many',
+      required: true,
+      primary: true,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //AC DB Lookup Field
-
-  Role: TextField({
-    label: 'Role',
-    required: true,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
-})
-const EmployeeDepartments = new Sheet('Employee Departments', {
-  //Lookup Field against Departments
-
-  DepartmentCode: TextField({
-    label: 'DepartmentCode',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Code] Column in the sheet [Departments]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //AC DB Lookup Field
+
+    Role: TextField({
+      label: 'Role',
+      required: true,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: employeeRolesLookupRecordsCompute,
+  }
+)
+const EmployeeDepartments = new Sheet(
+  'Employee Departments',
+  {
+    //Lookup Field against Departments
+
+    DepartmentCode: TextField({
+      label: 'DepartmentCode',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Code] Column in the sheet [Departments]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Lookup Field against Employees
-
-  EmployeeId: TextField({
-    label: 'Employee Id',
-    sheetKey: 'Employees',
-    foreignKey: 'id',
-    relationship: 'has-many',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
-})
+    //Lookup Field against Employees
+
+    EmployeeId: TextField({
+      label: 'Employee Id',
+      sheetKey: 'Employees',
+      foreignKey: 'id',
+      relationship: 'has-many',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: employeeDepartmentsLookupRecordsCompute,
+  }
+)
+
+const EmployeeGroups = new Sheet(
+  'Employee Groups',
+  {
+    //Lookup Field against Employees
+
+    EmployeeId: TextField({
+      label: 'Employee Id',
+      sheetKey: 'Employees',
+      foreignKey: 'id',
+      relationship: 'has-many',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-const EmployeeGroups = new Sheet('Employee Groups', {
-  //Lookup Field against Employees
-
-  EmployeeId: TextField({
-    label: 'Employee Id',
-    sheetKey: 'Employees',
-    foreignKey: 'id',
-    relationship: 'has-many',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Id] Column in the sheet [Employees]. The contents of this sheet will be merged into any of the sheets [Employees, EmployeeUpdates] and only migrated when those sheets are migrated. It is not possible to migrate this data by itself.',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Lookup Field against Groups
+
+    GroupName: TextField({
+      label: 'Group Name',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Name] Column in the sheet [Groups]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: employeeGroupsLookupRecordsCompute,
+  }
+)
+
+const AssociatedEmployees = new Sheet(
+  'Associated Employees',
+  {
+    //Lookup Field against Clients
+
+    ClientId: TextField({
+      label: 'Client Id',
+      required: true,
+      primary: true,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Id] Column in the sheet [Clients].',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Lookup Field against Groups
-
-  GroupName: TextField({
-    label: 'Group Name',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Name] Column in the sheet [Groups]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
-})
+    //Lookup Field against Employees
+
+    EmployeeId: TextField({
+      label: 'Employee Id',
+      sheetKey: 'Employees',
+      foreignKey: 'id',
+      relationship: 'has-many',
+      required: true,
+      primary: false,
+      unique: false,
+      description:
+        'Every entry in this column must also be in the [Id] Column in the sheet [Employees]',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-const AssociatedEmployees = new Sheet('Associated Employees', {
-  //Lookup Field against Clients
-
-  ClientId: TextField({
-    label: 'Client Id',
-    required: true,
-    primary: true,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Id] Column in the sheet [Clients].',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    //Free text field
+
+    Description: TextField({
+      label: 'Description',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: associatedEmployeesLookupRecordsCompute,
+  }
+)
+
+const Departments = new Sheet(
+  'Departments',
+  {
+    Code: TextField({
+      label: 'Code',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Lookup Field against Employees
-
-  EmployeeId: TextField({
-    label: 'Employee Id',
-    sheetKey: 'Employees',
-    foreignKey: 'id',
-    relationship: 'has-many',
-    required: true,
-    primary: false,
-    unique: false,
-    description:
-      'Every entry in this column must also be in the [Id] Column in the sheet [Employees]',
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
+    Name: TextField({
+      label: 'Name',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('Departments', ['Code']),
+  }
+)
+
+const Groups = new Sheet(
+  'Groups',
+  {
+    Name: TextField({
+      label: 'Name',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('Groups', ['Name']),
+  }
+)
+
+const Clients = new Sheet(
+  'Clients',
+  {
+    Id: TextField({
+      label: 'Id',
+      required: true,
+      primary: true,
+      unique: true,
+      description: 'Every entry must be unique',
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
 
-  //Free text field
-
-  Description: TextField({
-    label: 'Description',
-    required: false,
-    primary: false,
-    unique: false,
-    stageVisibility: {
-      mapping: true,
-      review: true,
-      export: true,
-    },
-  }),
-})
+    Name: TextField({
+      label: 'Name',
+      required: false,
+      primary: false,
+      unique: false,
+      stageVisibility: {
+        mapping: true,
+        review: true,
+        export: true,
+      },
+    }),
+  },
+  {
+    batchRecordsCompute: referenceValues.collect('Clients', ['Id']),
+  }
+)
 
 export default new SpaceConfig({
   name: 'Employees',
@@ -1077,6 +1507,12 @@ export default new SpaceConfig({
         EmployeeDepartments,
         EmployeeGroups,
         AssociatedEmployees,
+        EmploymentTypes,
+        CostCentres,
+        Suppliers,
+        Departments,
+        Groups,
+        Clients,
       },
     }),
   },
@@ -8,14 +8,16 @@ export class SheetTester {
   private testSession: IPayload
   constructor(
     public readonly passedWorkbook: Workbook,
-    public readonly passedSheetName: string
+    public readonly passedSheetName: string,
+    // sessions of testers with different workbookIds are different workbooks
+    public readonly workbookId = ''
   ) {
     this.sheetName = `${passedWorkbook.options.namespace}/${passedSheetName}`
     this.workbook = passedWorkbook
     this.testSession = {
       schemaSlug: '',
       workspaceId: '',
-      workbookId: '',
+      workbookId,
       schemaId: 1,
       uploads: [''],
       endUser: '',
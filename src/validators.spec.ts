@@ -0,0 +1,103 @@
+import {
+  all,
+  alphanumeric,
+  any,
+  formatMessage,
+  length,
+  not,
+  notOneOf,
+  numberRange,
+  oneOf,
+  regex,
+  when,
+} from './validators'
+
+const messagesOf = (messages: { message: string; level: string }[]) =>
+  messages.map(({ message, level }) => [message, level])
+
+describe('formatMessage ->', () => {
+  test('fills placeholders and leaves unknown ones', () => {
+    expect(
+      formatMessage('{value} is over {max} {unit}', { value: 3, max: 2 })
+    ).toBe('3 is over 2 {unit}')
+  })
+})
+
+describe('validators ->', () => {
+  test('regex', () => {
+    const postal = regex(/^\d{5}$/, { message: "'{value}' is not a ZIP code" })
+    expect(postal('12345')).toEqual([])
+    expect(messagesOf(postal('1234'))).toEqual([
+      ["'1234' is not a ZIP code", 'error'],
+    ])
+  })
+
+  test('length', () => {
+    expect(messagesOf(length({ min: 8, max: 72 })('short'))).toEqual([
+      ['Must be between 8 and 72 characters long', 'error'],
+    ])
+    expect(messagesOf(length({ max: 2 })('abc'))).toEqual([
+      ['Must be at most 2 characters long', 'error'],
+    ])
+    expect(length({ min: 1 })('a')).toEqual([])
+  })
+
+  test('alphanumeric', () => {
+    expect(alphanumeric()('AB12')).toEqual([])
+    expect(messagesOf(alphanumeric({ level: 'warn' })('AB-12'))).toEqual([
+      ["'AB-12' must contain only letters and numbers", 'warn'],
+    ])
+  })
+
+  test('numberRange', () => {
+    expect(numberRange({ min: 0, max: 24 })(24)).toEqual([])
+    expect(messagesOf(numberRange({ min: 0 })(-1))).toEqual([
+      ['-1 must be at least 0', 'error'],
+    ])
+  })
+
+  test('oneOf and notOneOf', () => {
+    expect(oneOf(['a', 'b'])('a')).toEqual([])
+    expect(messagesOf(oneOf(['a', 'b'])('c'))).toEqual([
+      ["'c' must be one of [a, b]", 'error'],
+    ])
+    expect(
+      messagesOf(notOneOf(['password'], { level: 'info' })('password'))
+    ).toEqual([["'password' is not allowed", 'info']])
+  })
+})
+
+describe('combinators ->', () => {
+  test('all returns the messages of every failing validator', () => {
+    const validator = all(length({ min: 3 }), alphanumeric())
+    expect(validator('abc')).toEqual([])
+    expect(validator('-')).toHaveLength(2)
+  })
+
+  test('any passes when one validator passes', () => {
+    const validator = any(regex(/^\d+$/), regex(/^[a-z]+$/))
+    expect(validator('123')).toEqual([])
+    expect(validator('abc')).toEqual([])
+    expect(validator('ab1')).toHaveLength(2)
+  })
+
+  test('when only runs the validator when the condition holds', () => {
+    const validator = when(
+      (value: string) => value.startsWith('X'),
+      length({ max: 3 })
+    )
+    expect(validator('Yellow')).toEqual([])
+    expect(validator('Xylophone')).toHaveLength(1)
+  })
+
+  test('not inverts a validator', () => {
+    const validator = not(regex(/test/i), {
+      message: "'{value}' looks like test data",
+      level: 'warn',
+    })
+    expect(validator('Jane')).toEqual([])
+    expect(messagesOf(validator('Test User'))).toEqual([
+      ["'Test User' looks like test data", 'warn'],
+    ])
+  })
+})
@@ -0,0 +1,211 @@
+import _ from 'lodash'
+import { Message } from '@flatfile/configure'
+
+export type Severity = 'error' | 'warn' | 'info'
+
+/**
+ * A Validator checks a field value and returns the messages explaining why
+ * it is invalid, an empty array when it is valid. Validators can be passed
+ * straight to a field's `validate` option.
+ */
+export type Validator<T> = (value: T) => Message[]
+
+export interface ValidatorOptions {
+  // level of the messages the validator returns, defaults to 'error'
+  level?: Severity
+  // message template, placeholders like {value} or {min} are filled in
+  message?: string
+}
+
+interface Bounds {
+  min?: number
+  max?: number
+}
+
+/**
+ * Fills the {placeholders} of a message template.
+ *
+ * @example
+ * formatMessage('{value} must be at most {max}', { value: 12, max: 10 })
+ * // '12 must be at most 10'
+ */
+export const formatMessage = (
+  template: string,
+  params: Record<string, unknown>
+): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    _.has(params, key) ? String(params[key]) : placeholder
+  )
+
+const describeBounds = (
+  { min, max }: Bounds,
+  unit = ''
+): string | undefined => {
+  if (min !== undefined && max !== undefined) {
+    return `between {min} and {max}${unit}`
+  }
+  if (min !== undefined) {
+    return `at least {min}${unit}`
+  }
+  if (max !== undefined) {
+    return `at most {max}${unit}`
+  }
+  return undefined
+}
+
+/**
+ * Builds a Validator from a test. Options given by the caller take
+ * precedence over defaultMessage.
+ */
+const makeValidator =
+  <T>(
+    isValid: (value: T) => boolean,
+    defaultMessage: string,
+    { level = 'error', message = defaultMessage }: ValidatorOptions,
+    params: Record<string, unknown> = {}
+  ): Validator<T> =>
+  (value) =>
+    isValid(value)
+      ? []
+      : [
+          new Message(
+            formatMessage(message, { ...params, value }),
+            level,
+            'validate'
+          ),
+        ]
+
+/**
+ * The value must match pattern.
+ */
+export const regex = (
+  pattern: RegExp,
+  options: ValidatorOptions = {}
+): Validator<string> =>
+  makeValidator(
+    (value) => pattern.test(value),
+    "'{value}' does not match the required format",
+    options,
+    { pattern }
+  )
+
+/**
+ * The value must have a length within bounds.
+ */
+export const length = (
+  bounds: Bounds,
+  options: ValidatorOptions = {}
+): Validator<string> =>
+  makeValidator(
+    (value) =>
+      (bounds.min === undefined || value.length >= bounds.min) &&
+      (bounds.max === undefined || value.length <= bounds.max),
+    `Must be ${describeBounds(bounds, ' characters')} long`,
+    options,
+    { ...bounds }
+  )
+
+/**
+ * The value must contain only the letters A-Z and digits.
+ */
+export const alphanumeric = (
+  options: ValidatorOptions = {}
+): Validator<string> =>
+  makeValidator(
+    (value) => /^[a-zA-Z0-9]+$/.test(value),
+    "'{value}' must contain only letters and numbers",
+    options
+  )
+
+/**
+ * The value must be a number within bounds.
+ */
+export const numberRange = (
+  bounds: Bounds,
+  options: ValidatorOptions = {}
+): Validator<number> =>
+  makeValidator(
+    (value) =>
+      (bounds.min === undefined || value >= bounds.min) &&
+      (bounds.max === undefined || value <= bounds.max),
+    `{value} must be ${describeBounds(bounds)}`,
+    options,
+    { ...bounds }
+  )
+
+/**
+ * The value must be one of values.
+ */
+export const oneOf = <T>(
+  values: T[],
+  options: ValidatorOptions = {}
+): Validator<T> =>
+  makeValidator(
+    (value) => values.includes(value),
+    "'{value}' must be one of [{values}]",
+    options,
+    { values: values.join(', ') }
+  )
+
+/**
+ * The value must not be one of values.
+ */
+export const notOneOf = <T>(
+  values: T[],
+  options: ValidatorOptions = {}
+): Validator<T> =>
+  makeValidator(
+    (value) => !values.includes(value),
+    "'{value}' is not allowed",
+    options,
+    { values: values.join(', ') }
+  )
+
+/*
+ * Combinators
+ */
+
+/**
+ * Every validator must pass, the messages of all failing ones are returned.
+ */
+export const all =
+  <T>(...validators: Validator<T>[]): Validator<T> =>
+  (value) =>
+    _.flatMap(validators, (validator) => validator(value))
+
+/**
+ * At least one validator must pass, otherwise the messages of all of them
+ * are returned.
+ */
+export const any =
+  <T>(...validators: Validator<T>[]): Validator<T> =>
+  (value) => {
+    const results = validators.map((validator) => validator(value))
+    return results.some((messages) => messages.length === 0)
+      ? []
+      : _.flatten(results)
+  }
+
+/**
+ * The validator only runs when condition holds for the value.
+ */
+export const when =
+  <T>(
+    condition: (value: T) => boolean,
+    validator: Validator<T>
+  ): Validator<T> =>
+  (value) =>
+    condition(value) ? validator(value) : []
+
+/**
+ * The validator must fail.
+ */
+export const not = <T>(
+  validator: Validator<T>,
+  options: ValidatorOptions = {}
+): Validator<T> =>
+  makeValidator(
+    (value) => validator(value).length > 0,
+    "'{value}' is not allowed",
+    options
+  )